@@ -0,0 +1,68 @@
+import { ENCODED_VALUE_MARKER } from './constants.js';
+import { transformValue } from './encoding.js';
+import type { EncodedCodecValue, ValueCodec } from './types.js';
+
+/**
+ * Registered codecs by name, tried in registration order.
+ */
+const codecs = new Map<string, ValueCodec>();
+
+/**
+ * Registers a codec so that values it handles keep their type across IPC: in method
+ * arguments and results, property values and event details. Register the same codec,
+ * under the same name, in the main process and in renderers. Registering a codec under
+ * an existing name replaces the previous one.
+ *
+ * @param codec - The codec
+ */
+export function registerCodec<T, E>(codec: ValueCodec<T, E>): void {
+  codecs.delete(codec.name);
+  codecs.set(codec.name, codec);
+}
+
+/**
+ * Encodes a value with the first registered codec handling it, or returns `undefined`
+ * if no codec handles it.
+ */
+export function encodeCodecValue(value: object): EncodedCodecValue | undefined {
+  for (const codec of codecs.values()) {
+    if (codec.is(value)) {
+      return { [ENCODED_VALUE_MARKER]: 'codec', codec: codec.name, value: codec.encode(value) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Recreates a value encoded by a codec.
+ * Throws if the codec is not registered on this side.
+ */
+export function decodeCodecValue(encoded: EncodedCodecValue): unknown {
+  const codec = codecs.get(encoded.codec);
+  if (!codec) {
+    throw new Error(`Codec '${encoded.codec}' is not registered`);
+  }
+  return codec.decode(encoded.value);
+}
+
+/**
+ * Recursively encodes the values handled by registered codecs, leaving other values unchanged.
+ * Used for values that are not sent to a single receiver, such as event details.
+ */
+export function encodeCodecValues(value: unknown): unknown {
+  if (codecs.size === 0) {
+    return value;
+  }
+  return transformValue(value, (current) => encodeCodecValue(current) ?? current);
+}
+
+/**
+ * Recursively recreates the values encoded by {@link encodeCodecValues}.
+ * Throws if one of the codecs is not registered on this side.
+ */
+export function decodeCodecValues(value: unknown): unknown {
+  return transformValue(value, (current) => {
+    const encoded = current as Partial<EncodedCodecValue>;
+    return encoded[ENCODED_VALUE_MARKER] === 'codec' ? decodeCodecValue(encoded as EncodedCodecValue) : current;
+  });
+}
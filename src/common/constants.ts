@@ -5,4 +5,13 @@ export const OBJECT_METADATA = Symbol('ELECTRON_OBJ_PROXY_METADATA');
 export const EXTENSION_METADATA = Symbol('ELECTRON_OBJ_EXTENSION_METADATA');
 
 /** IPC channel name used for all communication between main and renderer processes. */
-export const IPC_CHANNEL = '__ELECTRON_OBJ_PROXY__';
\ No newline at end of file
+export const IPC_CHANNEL = '__ELECTRON_OBJ_PROXY__';
+
+/** Default name of the global through which the preload exposes the API to renderers. */
+export const DEFAULT_GLOBAL_NAME = '__electronObjProxy';
+
+/**
+ * Property name marking values that were encoded for transport across IPC
+ * (e.g. references to remote objects) and must be decoded by the receiving side.
+ */
+export const ENCODED_VALUE_MARKER = '__electronObjProxyValue__';
@@ -0,0 +1,99 @@
+import { ENCODED_VALUE_MARKER } from './constants.js';
+import type { EncodedValue } from './types.js';
+
+/**
+ * Returns true if the value is a plain object (created by an object literal or
+ * `Object.create(null)`), which is walked recursively by `transformValue`.
+ */
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Recursively transforms a value that is about to cross (or has just crossed) the IPC boundary.
+ *
+ * `replace` is called for every object and function encountered. If it returns a different
+ * value, that value is used as-is and not walked further. Otherwise arrays and plain objects
+ * are copied with their elements transformed, and any other value is kept unchanged so that
+ * structured clone can handle it. Cyclic structures are preserved.
+ *
+ * @param value - The value to transform
+ * @param replace - Replacement callback for objects and functions
+ * @returns The transformed value
+ */
+export function transformValue(value: unknown, replace: (value: object) => unknown): unknown {
+  const seen = new Map<object, unknown>();
+
+  const visit = (current: unknown): unknown => {
+    if ((typeof current !== 'object' && typeof current !== 'function') || current === null) {
+      return current;
+    }
+
+    if (seen.has(current)) {
+      return seen.get(current);
+    }
+
+    const replaced = replace(current);
+    if (replaced !== current) {
+      seen.set(current, replaced);
+      return replaced;
+    }
+
+    if (Array.isArray(current)) {
+      const copy: unknown[] = [];
+      seen.set(current, copy);
+      for (const item of current) {
+        copy.push(visit(item));
+      }
+      return copy;
+    }
+
+    if (typeof current === 'object' && isPlainObject(current)) {
+      const copy: Record<string, unknown> = {};
+      seen.set(current, copy);
+      for (const [key, item] of Object.entries(current)) {
+        copy[key] = visit(item);
+      }
+      return copy;
+    }
+
+    return current;
+  };
+
+  return visit(value);
+}
+
+/**
+ * Returns true if the value is an encoded value produced by the other side of the IPC boundary.
+ */
+export function isEncodedValue(value: unknown): value is EncodedValue {
+  return typeof value === 'object' && value !== null && ENCODED_VALUE_MARKER in value;
+}
+
+/**
+ * Returns the own enumerable properties of an event (e.g. `loaded` and `total` of a
+ * progress event class), or `undefined` if it has none.
+ */
+export function getEventProperties(event: Event): Record<string, unknown> | undefined {
+  const keys = Object.keys(event);
+  if (keys.length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(keys.map((key) => [key, (event as any)[key]]));
+}
+
+/**
+ * Recreates an event forwarded from another process as a CustomEvent carrying its detail
+ * and its own enumerable properties. Properties that CustomEvent already defines
+ * (e.g. `type` or `detail`) are not overridden.
+ */
+export function createForwardedEvent(eventType: string, detail: unknown, properties: Record<string, unknown> | undefined): CustomEvent {
+  const event = new CustomEvent(eventType, { detail });
+  for (const [key, value] of Object.entries(properties ?? {})) {
+    if (!(key in event)) {
+      Object.defineProperty(event, key, { value, enumerable: true });
+    }
+  }
+  return event;
+}
@@ -0,0 +1,224 @@
+import type { SerializedError } from './types.js';
+
+/**
+ * Base class for errors raised by electron-objproxy itself.
+ * These errors are transferred to the renderer with their class and properties intact.
+ */
+export class ObjProxyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Error raised when the `authorize` hook of `initObjProxy` rejects a request.
+ */
+export class PermissionDeniedError extends ObjProxyError {
+  /** Type of the rejected request */
+  readonly requestType: string;
+  /** Name of the class the request targeted */
+  readonly className: string;
+  /** Method or property the request targeted, if any */
+  readonly member?: string;
+
+  constructor(requestType: string, className: string, member?: string) {
+    const target = member === undefined ? className : `${className}.${member}`;
+    super(`Permission denied: '${requestType}' on '${target}'`);
+    this.requestType = requestType;
+    this.className = className;
+    this.member = member;
+  }
+}
+
+/**
+ * Error raised when an argument passed from a renderer does not match the schema
+ * declared in `ExtensionMetadata.constructorArgs` / `ExtensionMetadata.methodArgs`.
+ */
+export class ArgumentValidationError extends ObjProxyError {
+  /** Name of the class whose constructor or method was called */
+  readonly className: string;
+  /** Name of the method, or `'constructor'` for constructor arguments */
+  readonly method: string;
+  /** Index of the failing argument */
+  readonly argumentIndex: number;
+  /** Path of the failing value within the argument */
+  readonly path: (string | number)[];
+  /** Description of the failure */
+  readonly reason: string;
+
+  constructor(className: string, method: string, argumentIndex: number, path: (string | number)[], reason: string) {
+    const location = path.length > 0 ? ` at '${path.join('.')}'` : '';
+    super(`Invalid argument ${argumentIndex} of '${className}.${method}'${location}: ${reason}`);
+    this.className = className;
+    this.method = method;
+    this.argumentIndex = argumentIndex;
+    this.path = path;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error raised in the renderer when a method call does not settle within the timeout
+ * given to `withOptions`.
+ */
+export class CallTimeoutError extends ObjProxyError {
+  /** Name of the method that timed out */
+  readonly method: string;
+  /** Timeout in milliseconds */
+  readonly timeout: number;
+
+  constructor(method: string, timeout: number) {
+    super(`Call to '${method}' timed out after ${timeout} ms`);
+    this.method = method;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error raised in the renderer when calling a published object whose publisher has
+ * withdrawn it, navigated away or been destroyed.
+ */
+export class DisconnectedError extends ObjProxyError {
+  /** Name the object was published under */
+  readonly publishedName: string;
+
+  constructor(publishedName: string) {
+    super(`Published object '${publishedName}' is disconnected`);
+    this.publishedName = publishedName;
+  }
+}
+
+/**
+ * Error classes that are recreated by `deserializeError`, keyed by name.
+ */
+const errorClasses: Record<string, new (...args: any[]) => Error> = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  ObjProxyError,
+  PermissionDeniedError,
+  ArgumentValidationError,
+  CallTimeoutError,
+  DisconnectedError,
+};
+
+/**
+ * Maximum depth of `cause` chains that are serialized.
+ */
+const MAX_CAUSE_DEPTH = 16;
+
+/**
+ * Keys of serialized error properties that are not copied to recreated errors, since
+ * assigning them could replace the prototype of the error.
+ */
+const UNSAFE_PROPERTY_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Registers an error class so that errors serialized under its name are recreated as
+ * instances of it, making `instanceof` checks work across the process boundary.
+ * Errors are recreated without calling the constructor.
+ *
+ * @param ErrorClass - The error class
+ * @param name - The error name to map (defaults to the class name)
+ */
+export function registerErrorClass(ErrorClass: new (...args: any[]) => Error, name: string = ErrorClass.name): void {
+  errorClasses[name] = ErrorClass;
+}
+
+/**
+ * Returns true if the value survives structured clone.
+ */
+function isCloneable(value: unknown): boolean {
+  try {
+    structuredClone(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serializes an error for transport across IPC.
+ * The name, message, stack, `cause` chain and own enumerable properties are kept;
+ * properties that cannot be transferred are dropped. Non-Error values are wrapped
+ * in a plain error.
+ *
+ * @param error - The thrown value
+ * @param depth - Depth of `error` in the cause chain being serialized
+ * @returns The serialized error
+ */
+export function serializeError(error: unknown, depth: number = 0): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const { name, message, stack } = error;
+  const properties: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(error)) {
+    if (key !== 'name' && key !== 'message' && key !== 'stack' && isCloneable(value)) {
+      properties[key] = value;
+    }
+  }
+
+  // `code` may be defined as a non-enumerable property or a getter
+  const { code } = error as { code?: unknown };
+  if (code !== undefined && !('code' in properties) && isCloneable(code)) {
+    properties.code = code;
+  }
+
+  const serialized: SerializedError = { name, message, stack, properties };
+
+  const { cause } = error as { cause?: unknown };
+  if (cause instanceof Error && depth < MAX_CAUSE_DEPTH) {
+    delete properties.cause;
+    serialized.cause = serializeError(cause, depth + 1);
+  } else if (cause !== undefined && !('cause' in properties) && isCloneable(cause)) {
+    properties.cause = cause;
+  }
+
+  return serialized;
+}
+
+/**
+ * Recreates an error serialized by `serializeError`.
+ * Errors of built-in and registered classes are recreated with their prototype, so that
+ * `instanceof` checks work; other errors become plain `Error` instances carrying the
+ * original name.
+ *
+ * @param serialized - The serialized error
+ * @returns The recreated error
+ */
+export function deserializeError(serialized: SerializedError): Error {
+  const ErrorClass = Object.prototype.hasOwnProperty.call(errorClasses, serialized.name)
+    ? errorClasses[serialized.name]
+    : Error;
+
+  const error: Error = Object.create(ErrorClass.prototype);
+  Object.defineProperty(error, 'message', { value: serialized.message, writable: true, configurable: true });
+  Object.defineProperty(error, 'name', { value: serialized.name, writable: true, configurable: true });
+  if (serialized.stack !== undefined) {
+    Object.defineProperty(error, 'stack', { value: serialized.stack, writable: true, configurable: true });
+  }
+  const properties = serialized.properties ?? {};
+  for (const key of Object.keys(properties)) {
+    if (UNSAFE_PROPERTY_KEYS.has(key)) {
+      continue;
+    }
+    Object.defineProperty(error, key, {
+      value: properties[key],
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+  if (serialized.cause) {
+    Object.defineProperty(error, 'cause', { value: deserializeError(serialized.cause), writable: true, configurable: true });
+  }
+
+  return error;
+}
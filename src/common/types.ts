@@ -1,3 +1,5 @@
+import type { ENCODED_VALUE_MARKER } from './constants.js';
+
 /**
  * Map of class names to their constructors for object proxying.
  * This interface should be extended by users via ambient module declaration
@@ -28,7 +30,7 @@ export interface ElectronObjProxyAPI {
    * @param payload - Create object request payload
    * @returns Promise that resolves to create object response
    */
-  invoke(payload: CreateObjectRequest): Promise<CreateObjectResponse>;
+  invoke(payload: CreateObjectRequest): Promise<InvokeResponse<CreateObjectResponse>>;
 
   /**
    * Sends invoke request to main process for singleton retrieval.
@@ -36,7 +38,7 @@ export interface ElectronObjProxyAPI {
    * @param payload - Get singleton request payload
    * @returns Promise that resolves to create object response
    */
-  invoke(payload: GetSingletonRequest): Promise<CreateObjectResponse>;
+  invoke(payload: GetSingletonRequest): Promise<InvokeResponse<CreateObjectResponse>>;
 
   /**
    * Sends invoke request to main process for method calls.
@@ -44,7 +46,95 @@ export interface ElectronObjProxyAPI {
    * @param payload - Call method request payload
    * @returns Promise that resolves to method call result
    */
-  invoke(payload: CallMethodRequest): Promise<any>;
+  invoke(payload: CallMethodRequest): Promise<InvokeResponse<any>>;
+
+  /**
+   * Sends invoke request to main process for reading a property.
+   *
+   * @param payload - Get property request payload
+   * @returns Promise that resolves to the property value
+   */
+  invoke(payload: GetPropertyRequest): Promise<InvokeResponse<any>>;
+
+  /**
+   * Sends invoke request to main process for assigning a property.
+   *
+   * @param payload - Set property request payload
+   * @returns Promise that resolves once the property has been assigned
+   */
+  invoke(payload: SetPropertyRequest): Promise<InvokeResponse<void>>;
+
+  /**
+   * Sends invoke request to main process for calling several methods at once.
+   *
+   * @param payload - Batch call request payload
+   * @returns Promise that resolves to the response envelope of each call
+   */
+  invoke(payload: BatchCallRequest): Promise<InvokeResponse<InvokeResponse<unknown>[]>>;
+
+  /**
+   * Sends invoke request to main process for pulling the next value of a remote iterator.
+   *
+   * @param payload - Iterator next request payload
+   * @returns Promise that resolves to the iterator result
+   */
+  invoke(payload: IteratorNextRequest): Promise<InvokeResponse<IteratorResult<unknown>>>;
+
+  /**
+   * Sends invoke request to main process for closing a remote iterator early.
+   *
+   * @param payload - Iterator return request payload
+   * @returns Promise that resolves once the iterator has been closed
+   */
+  invoke(payload: IteratorReturnRequest): Promise<InvokeResponse<void>>;
+
+  /**
+   * Sends invoke request to main process for exporting an object to another frame.
+   *
+   * @param payload - Export object request payload
+   * @returns Promise that resolves to the export token
+   */
+  invoke(payload: ExportObjectRequest): Promise<InvokeResponse<string>>;
+
+  /**
+   * Sends invoke request to main process for importing an exported object.
+   *
+   * @param payload - Import object request payload
+   * @returns Promise that resolves to object creation response
+   */
+  invoke(payload: ImportObjectRequest): Promise<InvokeResponse<CreateObjectResponse>>;
+
+  /**
+   * Sends invoke request to main process for publishing an object to other renderers.
+   *
+   * @param payload - Publish object request payload
+   * @returns Promise that resolves to the publication ID
+   */
+  invoke(payload: PublishObjectRequest): Promise<InvokeResponse<number>>;
+
+  /**
+   * Sends invoke request to main process for looking up a published object.
+   *
+   * @param payload - Get published object request payload
+   * @returns Promise that resolves to the publication ID
+   */
+  invoke(payload: GetPublishedObjectRequest): Promise<InvokeResponse<number>>;
+
+  /**
+   * Sends invoke request to main process for calling a method of a published object.
+   *
+   * @param payload - Call published object request payload
+   * @returns Promise that resolves to method call result
+   */
+  invoke(payload: CallPublishedObjectRequest): Promise<InvokeResponse<any>>;
+
+  /**
+   * Sends invoke request to main process for calling a function relayed from another renderer.
+   *
+   * @param payload - Call relayed function request payload
+   * @returns Promise that resolves to the function's result
+   */
+  invoke(payload: CallRelayedFunctionRequest): Promise<InvokeResponse<any>>;
 
   /**
    * Sends notification to main process for object release.
@@ -53,22 +143,85 @@ export interface ElectronObjProxyAPI {
    */
   send(message: ReleaseObjectsMessage): void;
 
+  /**
+   * Sends the result of a renderer callback invoked by the main process.
+   *
+   * @param message - Callback result message
+   */
+  send(message: CallbackResultMessage): void;
+
+  /**
+   * Sends notification to main process for withdrawing a published object.
+   *
+   * @param message - Unpublish object message
+   */
+  send(message: UnpublishObjectMessage): void;
+
+  /**
+   * Sends notification to main process for the release of proxies to published objects.
+   *
+   * @param message - Release published objects message
+   */
+  send(message: ReleasePublishedObjectsMessage): void;
+
+  /**
+   * Sends the event types listened to on an object to main process.
+   *
+   * @param message - Listen events message
+   */
+  send(message: ListenEventsMessage): void;
+
+  /**
+   * Sends notification to main process for cancelling a method call.
+   *
+   * @param message - Cancel call message
+   */
+  send(message: CancelCallMessage): void;
+
   /**
    * Sends synchronous request to main process for singleton retrieval.
    *
    * @param message - Get singleton sync request
    * @returns Singleton sync response
    */
-  sendSync(message: GetSingletonSyncRequest): GetSingletonSyncResponse;
+  sendSync(message: GetSingletonSyncRequest): InvokeResponse<GetSingletonSyncResponse>;
 
   /**
-   * Registers listener for event notifications from main process.
+   * Registers listener for event and callback notifications from main process.
    *
-   * @param listener - Function to handle event messages
+   * @param listener - Function to handle messages from main process
+   */
+  onEvent(listener: (message: MainProcessMessage) => void): void;
+
+  /**
+   * IPC channel used by this API, which the renderer also uses to transfer MessagePorts.
+   */
+  readonly channel: string;
+}
+
+/**
+ * Serialized form of an error thrown in the other process.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  /** Serialized `cause`, when the cause is an Error */
+  cause?: SerializedError;
+  /**
+   * Own enumerable properties of the error, plus `code` and a non-Error `cause`
+   * (which may be non-enumerable)
    */
-  onEvent(listener: (message: EventMessage) => void): void;
+  properties?: Record<string, unknown>;
 }
 
+/**
+ * Envelope for responses to invoke and synchronous requests.
+ * Errors are returned as `error` instead of being thrown, because Electron would
+ * otherwise rewrap them and only keep the message.
+ */
+export type InvokeResponse<T> = { result: T } | { error: SerializedError };
+
 /**
  * Request payload for creating objects in main process.
  */
@@ -84,7 +237,11 @@ export interface CreateObjectRequest {
 export interface CreateObjectResponse {
   objectId: number;
   isEventTarget: boolean;
+  /** Whether the remote object is an EventEmitter, whose events are received with `on` */
+  isEventEmitter?: boolean;
   extensions?: ExtensionMetadata;
+  /** Snapshot of the observable state, when the class declares `extensions.state` */
+  state?: unknown;
 }
 
 /**
@@ -94,16 +251,190 @@ export interface GetSingletonRequest {
   type: 'getSingleton';
   className: string;
   args: unknown[];
+  /** Application-defined key distinguishing singletons of the same class */
+  key?: string;
+  /** Scope of the singleton; defaults to `'app'` */
+  scope?: SingletonScope;
+}
+
+/**
+ * Scope within which a singleton is shared.
+ * - `'app'`: one instance for the whole application
+ * - `'webContents'`: one instance per requesting WebContents, released when it is destroyed
+ * - `'session'`: one instance per session of the requesting WebContents
+ */
+export type SingletonScope = 'app' | 'webContents' | 'session';
+
+/**
+ * Options for retrieving keyed or scoped singletons.
+ */
+export interface SingletonOptions<A extends unknown[] = unknown[]> {
+  /** Application-defined key distinguishing singletons of the same class */
+  key?: string;
+  /** Scope of the singleton; defaults to `'app'` */
+  scope?: SingletonScope;
+  /** Constructor arguments, used only on first creation */
+  args?: A;
 }
 
 /**
  * Request payload for calling methods on remote objects.
+ * `args` are encoded values (see `EncodedValue`), and the method result is
+ * returned encoded in the same way.
  */
 export interface CallMethodRequest {
   type: 'call';
   objectId: number;
   method: string;
   args: unknown[];
+  /**
+   * Renderer-assigned identifier making the call cancellable via `CancelCallMessage`.
+   * Only set for calls made with a signal or timeout.
+   */
+  callId?: number;
+}
+
+/**
+ * Request payload for calling several methods in a single round trip.
+ * The calls are started in order, and each is settled individually: the response
+ * holds one envelope per call, in the same order.
+ */
+export interface BatchCallRequest {
+  type: 'batch';
+  calls: BatchedCall[];
+}
+
+/**
+ * A method call within a `BatchCallRequest`.
+ */
+export interface BatchedCall {
+  objectId: number;
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Request payload for exporting an owned object, so that another frame can import it.
+ */
+export interface ExportObjectRequest {
+  type: 'export';
+  objectId: number;
+  /** When true, the exporting frame stops holding the object; otherwise it is shared */
+  transfer: boolean;
+}
+
+/**
+ * Request payload for importing an object with the token returned by an export.
+ */
+export interface ImportObjectRequest {
+  type: 'import';
+  token: string;
+}
+
+/**
+ * Request payload for publishing an object of the sender under a name, so that other
+ * renderers can call it through the main process. Resolves to the ID of the publication.
+ */
+export interface PublishObjectRequest {
+  type: 'publish';
+  name: string;
+}
+
+/**
+ * Message for withdrawing an object published by the sender.
+ */
+export interface UnpublishObjectMessage {
+  type: 'unpublish';
+  name: string;
+}
+
+/**
+ * Message for notifying main process that the sender released its proxies to publications,
+ * so that the callbacks it passed to them and the functions relayed to it are released.
+ */
+export interface ReleasePublishedObjectsMessage {
+  type: 'releasePublished';
+  publicationIds: number[];
+}
+
+/**
+ * Request payload for looking up a published object.
+ * Resolves to the ID of the current publication under the name.
+ */
+export interface GetPublishedObjectRequest {
+  type: 'getPublished';
+  name: string;
+}
+
+/**
+ * Request payload for calling a method of a published object.
+ * Fails with `DisconnectedError` if the publication has been withdrawn.
+ */
+export interface CallPublishedObjectRequest {
+  type: 'callPublished';
+  name: string;
+  publicationId: number;
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Request payload for calling a function that another renderer passed to (or returned
+ * from) a published object, and that the main process relays to the sender.
+ * The result is encoded in the same way as method results.
+ */
+export interface CallRelayedFunctionRequest {
+  type: 'callFunction';
+  functionId: number;
+  args: unknown[];
+}
+
+/**
+ * Message for cancelling an in-flight cancellable method call.
+ */
+export interface CancelCallMessage {
+  type: 'cancel';
+  callId: number;
+  /** Abort reason, used as the reason of the main-side AbortSignal */
+  reason?: SerializedError;
+}
+
+/**
+ * Request payload for reading a property exposed via `ExtensionMetadata.properties`.
+ * The value is returned encoded in the same way as method results.
+ */
+export interface GetPropertyRequest {
+  type: 'get';
+  objectId: number;
+  property: string;
+}
+
+/**
+ * Request payload for assigning a property exposed via `ExtensionMetadata.properties`.
+ * `value` is encoded in the same way as method arguments.
+ */
+export interface SetPropertyRequest {
+  type: 'set';
+  objectId: number;
+  property: string;
+  value: unknown;
+}
+
+/**
+ * Request payload for pulling the next value of an iterator exposed by the main process.
+ * The value of the result is encoded in the same way as method results.
+ */
+export interface IteratorNextRequest {
+  type: 'iteratorNext';
+  iteratorId: number;
+}
+
+/**
+ * Request payload for closing an iterator exposed by the main process before it is done.
+ */
+export interface IteratorReturnRequest {
+  type: 'iteratorReturn';
+  iteratorId: number;
 }
 
 /**
@@ -114,6 +445,26 @@ export interface ReleaseObjectsMessage {
   objectIds: number[];
 }
 
+/**
+ * Message reporting the event types the sender listens to on an EventTarget or EventEmitter object.
+ * It replaces the previously reported types; the main process forwards only events
+ * of these types to the sender.
+ */
+export interface ListenEventsMessage {
+  type: 'listen';
+  objectId: number;
+  eventTypes: string[];
+}
+
+/**
+ * Message sent by the preload script when a document is created, before any other
+ * request from that document. For a main frame, it marks the start of a new page
+ * generation: objects owned by the previous page are released.
+ */
+export interface DocumentCreatedMessage {
+  type: 'documentCreated';
+}
+
 /**
  * Message for event notifications from main process.
  */
@@ -122,8 +473,143 @@ export interface EventMessage {
   objectId: number;
   eventType: string;
   detail: unknown;
+  /** Own enumerable properties of the event (e.g. `loaded` of a progress event), if any */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Message for events emitted by an EventEmitter in the main process.
+ */
+export interface EmitMessage {
+  type: 'emit';
+  objectId: number;
+  eventName: string;
+  /** Arguments passed to `emit` after the event name */
+  args: unknown[];
+}
+
+/**
+ * Message carrying changes of an object's observable state from main process.
+ * Patches are applied in order to the renderer's snapshot.
+ */
+export interface StateMessage {
+  type: 'state';
+  objectId: number;
+  patches: StatePatch[];
+}
+
+/**
+ * A single change of an observable state.
+ * `path` lists the property keys from the state root; an empty path replaces the whole state.
+ */
+export type StatePatch =
+  | { op: 'set'; path: string[]; value: unknown }
+  | { op: 'delete'; path: string[] };
+
+/**
+ * Message for invoking a renderer callback passed as a method argument.
+ * The renderer replies with a `CallbackResultMessage` carrying the same `callId`.
+ */
+export interface InvokeCallbackMessage {
+  type: 'callback';
+  callbackId: number;
+  callId: number;
+  args: unknown[];
+}
+
+/**
+ * Message from main process calling a method of an object exposed by the renderer
+ * with `exposeObject`, or published with `publishObject`. The renderer replies with a
+ * `CallbackResultMessage` carrying the same `callId`.
+ */
+export interface CallExposedObjectMessage {
+  type: 'callExposed';
+  callId: number;
+  name: string;
+  method: string;
+  args: unknown[];
+  /** Set for calls relayed to a published object, which is looked up among published objects */
+  publicationId?: number;
+}
+
+/**
+ * Message carrying the outcome of a renderer callback invocation or exposed object call.
+ * Exactly one of `result` and `error` is meaningful, depending on `error` presence.
+ */
+export interface CallbackResultMessage {
+  type: 'callbackResult';
+  callId: number;
+  result?: unknown;
+  error?: SerializedError;
+}
+
+/**
+ * Union of messages sent from main process to renderer processes.
+ */
+export type MainProcessMessage = EventMessage | EmitMessage | StateMessage | InvokeCallbackMessage | CallExposedObjectMessage;
+
+/**
+ * Request from the main process to a process hosting classes, asking it to
+ * construct an instance under the objectId allocated by the main process.
+ * Resolves to a `HostCreateResult`.
+ */
+export interface HostCreateRequest {
+  type: 'new';
+  requestId: number;
+  objectId: number;
+  className: string;
+  args: unknown[];
 }
 
+/**
+ * Request from the main process to a process hosting classes, calling a method of a hosted object.
+ */
+export interface HostCallRequest {
+  type: 'call';
+  requestId: number;
+  objectId: number;
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Request from the main process to a process hosting classes, releasing and disposing a hosted object.
+ */
+export interface HostReleaseRequest {
+  type: 'release';
+  requestId: number;
+  objectId: number;
+}
+
+/**
+ * Requests sent from the main process to a process hosting classes.
+ */
+export type HostRequest = HostCreateRequest | HostCallRequest | HostReleaseRequest;
+
+/**
+ * Result of a `HostCreateRequest`.
+ */
+export interface HostCreateResult {
+  isEventTarget: boolean;
+  /** Extension metadata enforced by the main process (exposed methods and batching) */
+  extensions?: ExtensionMetadata;
+}
+
+/**
+ * Message from a process hosting classes, settling a request of the main process.
+ */
+export interface HostResponseMessage {
+  type: 'response';
+  requestId: number;
+  response: InvokeResponse<unknown>;
+}
+
+/**
+ * Messages sent from a process hosting classes to the main process.
+ * Events dispatched on hosted objects are sent as `EventMessage`.
+ */
+export type HostMessage = HostResponseMessage | EventMessage;
+
 /**
  * Request payload for getting singleton objects synchronously from main process.
  */
@@ -131,6 +617,10 @@ export interface GetSingletonSyncRequest {
   type: 'getSingletonSync';
   className: string;
   args: unknown[];
+  /** Application-defined key distinguishing singletons of the same class */
+  key?: string;
+  /** Scope of the singleton; defaults to `'app'` */
+  scope?: SingletonScope;
 }
 
 /**
@@ -139,7 +629,11 @@ export interface GetSingletonSyncRequest {
 export interface GetSingletonSyncResponse {
   objectId: number;
   isEventTarget: boolean;
+  /** Whether the remote object is an EventEmitter, whose events are received with `on` */
+  isEventEmitter?: boolean;
   extensions?: ExtensionMetadata;
+  /** Snapshot of the observable state, when the class declares `extensions.state` */
+  state?: unknown;
 }
 
 /**
@@ -155,6 +649,175 @@ export interface ExtensionMetadata {
    * the calling WebContents while the method is executing.
    */
   needsCaller?: boolean;
+  /**
+   * Method names that renderers are allowed to call. When set, any other method is
+   * rejected. Methods listed in `messagePort.methods` are allowed as well.
+   * Required for every class when `strict` is enabled in `initObjProxy`.
+   */
+  allowedMethods?: string[];
+  /**
+   * Method names that renderers are not allowed to call.
+   * Ignored when `allowedMethods` is set.
+   */
+  deniedMethods?: string[];
+  /**
+   * Schemas validating the constructor arguments passed by renderers.
+   * Each schema validates the argument at the same index.
+   */
+  constructorArgs?: ArgumentSchema[];
+  /**
+   * Schemas validating the arguments of method calls from renderers, keyed by method name.
+   * Each schema validates the argument at the same index.
+   */
+  methodArgs?: Record<string, ArgumentSchema[]>;
+  /**
+   * Properties that renderers can read and assign, keyed by property name.
+   * Reading an exposed property on a proxy returns a Promise of its value.
+   */
+  properties?: Record<string, PropertyExtension>;
+  /**
+   * Name of the instance property holding an observable state object.
+   * Changes made through the property are mirrored to renderers, where the proxy
+   * exposes the property as a synchronously readable snapshot.
+   * The state must contain only structured-cloneable plain objects, arrays and primitives.
+   */
+  state?: string;
+  /**
+   * When false, method calls on instances of this class are sent immediately instead
+   * of being batched with other calls made in the same task. Defaults to true.
+   */
+  batch?: boolean;
+  /**
+   * Name of a method called when an instance is released by the proxy layer, for any
+   * reason: explicit release, garbage collection of the renderer proxy, destruction of
+   * the owning WebContents, or application quit.
+   * When omitted, `[Symbol.dispose]` or `[Symbol.asyncDispose]` is called if implemented.
+   */
+  dispose?: string;
+  /**
+   * Policies for delivering high-frequency events to renderers, keyed by event type
+   * (event name for EventEmitters). Policies apply to each recipient frame separately;
+   * events of other types are sent as soon as they are dispatched.
+   */
+  events?: Record<string, EventDeliveryPolicy>;
+}
+
+/**
+ * Schema for validating an argument passed from a renderer.
+ *
+ * - A type name checks `typeof` (`'array'` checks `Array.isArray`, `'object'` excludes
+ *   `null` and arrays, `'any'` accepts everything).
+ * - An object with `type` describes a composite schema.
+ * - An object with `validate` adapts an external validation library (e.g. zod).
+ */
+export type ArgumentSchema =
+  | 'any'
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'bigint'
+  | 'null'
+  | 'undefined'
+  | 'function'
+  | 'object'
+  | 'array'
+  | ArraySchema
+  | ObjectSchema
+  | OptionalSchema
+  | UnionSchema
+  | LiteralSchema
+  | SchemaValidator;
+
+/**
+ * Schema for arrays whose elements all match `items`.
+ */
+export interface ArraySchema {
+  type: 'array';
+  items: ArgumentSchema;
+}
+
+/**
+ * Schema for objects whose properties match `properties`.
+ * Properties not listed are rejected unless `additionalProperties` is true.
+ */
+export interface ObjectSchema {
+  type: 'object';
+  properties: Record<string, ArgumentSchema>;
+  additionalProperties?: boolean;
+}
+
+/**
+ * Schema accepting `undefined` in addition to values matching `schema`.
+ */
+export interface OptionalSchema {
+  type: 'optional';
+  schema: ArgumentSchema;
+}
+
+/**
+ * Schema accepting values that match any of `schemas`.
+ */
+export interface UnionSchema {
+  type: 'union';
+  schemas: ArgumentSchema[];
+}
+
+/**
+ * Schema accepting only `value` (compared with `===`).
+ */
+export interface LiteralSchema {
+  type: 'literal';
+  value: string | number | boolean | null;
+}
+
+/**
+ * Adapter point for external validation libraries.
+ */
+export interface SchemaValidator {
+  /**
+   * Validates a value.
+   *
+   * @param value - The value to validate
+   * @returns The issues found, or an empty array / undefined if the value is valid
+   */
+  validate(value: unknown): SchemaIssue[] | undefined;
+}
+
+/**
+ * Validation issue reported by a `SchemaValidator`.
+ */
+export interface SchemaIssue {
+  /** Path of the failing value, relative to the validated value */
+  path: (string | number)[];
+  /** Description of the failure */
+  message: string;
+}
+
+/**
+ * Configuration for a property exposed to renderers.
+ */
+export interface PropertyExtension {
+  /** When true, renderers can read but not assign the property */
+  readonly?: boolean;
+}
+
+/**
+ * Policy for delivering events of one type to renderers. Dispatch in the main process
+ * is not affected.
+ *
+ * - `'throttle'`: sends an event, then drops the events dispatched in the following `interval`.
+ * - `'latest'`: sends an event, then sends only the latest of the events dispatched in each
+ *   following `interval`, so that the last event is always delivered.
+ * - `'batch'`: collects the events dispatched in `interval` and sends them as one event.
+ *   Its `detail` is the array of the collected details; the listeners of an EventEmitter
+ *   receive a single argument, the array of the collected argument lists.
+ */
+export interface EventDeliveryPolicy {
+  mode: 'throttle' | 'latest' | 'batch';
+  /** Length of the delivery window in milliseconds */
+  interval: number;
+  /** For `'batch'`, number of events at which a batch is sent before `interval` elapses */
+  maxSize?: number;
 }
 
 /**
@@ -192,3 +855,86 @@ export interface CallWithPortMessage {
   /** Method arguments (excluding MessagePort) */
   args: unknown[];
 }
+
+/**
+ * Encoded reference to an object managed by the main process.
+ * Sent by the renderer when a proxy is passed as a method argument, and by the
+ * main process when a method returns a proxiable object. References sent by the
+ * main process also carry the information needed to build a proxy.
+ */
+export interface EncodedObjectReference {
+  [ENCODED_VALUE_MARKER]: 'object';
+  /** Unique identifier for the object */
+  objectId: number;
+  /** Whether the remote object is an EventTarget (main → renderer only) */
+  isEventTarget?: boolean;
+  /** Whether the remote object is an EventEmitter (main → renderer only) */
+  isEventEmitter?: boolean;
+  /** Extension metadata of the object's class (main → renderer only) */
+  extensions?: ExtensionMetadata;
+  /** Snapshot of the observable state (main → renderer only) */
+  state?: unknown;
+}
+
+/**
+ * Encoded reference to a renderer function passed as a method argument.
+ * The main process receives a stub function that invokes the original callback
+ * through an `InvokeCallbackMessage` and resolves with its result.
+ */
+export interface EncodedCallbackReference {
+  [ENCODED_VALUE_MARKER]: 'callback';
+  /** Identifier of the callback, unique within the renderer */
+  callbackId: number;
+}
+
+/**
+ * Encoded reference to a function of another renderer, relayed by the main process
+ * (see `CallRelayedFunctionRequest`).
+ */
+export interface EncodedFunctionReference {
+  [ENCODED_VALUE_MARKER]: 'function';
+  /** Identifier of the relayed function, unique within the main process */
+  functionId: number;
+}
+
+/**
+ * Encoded reference to an async iterable returned by a main-process method.
+ * The renderer receives an async iterable that pulls values with `IteratorNextRequest`.
+ */
+export interface EncodedIteratorReference {
+  [ENCODED_VALUE_MARKER]: 'iterator';
+  /** Identifier of the iterator, unique within the main process */
+  iteratorId: number;
+}
+
+/**
+ * Value encoded by a codec registered with `registerCodec`.
+ */
+export interface EncodedCodecValue {
+  [ENCODED_VALUE_MARKER]: 'codec';
+  /** Name of the codec */
+  codec: string;
+  /** Value returned by the codec's `encode` */
+  value: unknown;
+}
+
+/**
+ * Union of values that are encoded for transport across IPC.
+ */
+export type EncodedValue = EncodedObjectReference | EncodedCallbackReference | EncodedFunctionReference | EncodedIteratorReference | EncodedCodecValue;
+
+/**
+ * Codec transporting values of a type that structured clone does not preserve
+ * (e.g. class instances) across IPC. Register the same codec in the main process and
+ * in renderers with `registerCodec`.
+ */
+export interface ValueCodec<T = any, E = unknown> {
+  /** Name identifying the codec on both sides */
+  name: string;
+  /** Returns true if the value is handled by this codec */
+  is(value: unknown): value is T;
+  /** Converts the value to a structured-cloneable form */
+  encode(value: T): E;
+  /** Recreates the value from its encoded form */
+  decode(encoded: E): T;
+}
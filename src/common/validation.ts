@@ -0,0 +1,161 @@
+import type { ArgumentSchema, ExtensionMetadata, SchemaIssue } from './types.js';
+import { ArgumentValidationError } from './errors.js';
+
+/**
+ * Failure found while validating arguments.
+ */
+export interface ArgumentIssue extends SchemaIssue {
+  /** Index of the failing argument */
+  argumentIndex: number;
+}
+
+/**
+ * Returns a short description of a value's type for validation messages.
+ */
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Validates a value against a schema.
+ *
+ * @param schema - The schema to validate against
+ * @param value - The value to validate
+ * @param path - Path of the value within the argument
+ * @returns The first issue found, or undefined if the value is valid
+ */
+function validateValue(schema: ArgumentSchema, value: unknown, path: (string | number)[]): SchemaIssue | undefined {
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'any':
+        return undefined;
+      case 'null':
+      case 'array':
+      case 'object':
+        return describeType(value) === schema ? undefined : { path, message: `expected ${schema}, got ${describeType(value)}` };
+      default:
+        return typeof value === schema ? undefined : { path, message: `expected ${schema}, got ${describeType(value)}` };
+    }
+  }
+
+  if ('validate' in schema) {
+    const issues = schema.validate(value);
+    if (!issues || issues.length === 0) {
+      return undefined;
+    }
+    return { path: [...path, ...issues[0].path], message: issues[0].message };
+  }
+
+  switch (schema.type) {
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return { path, message: `expected array, got ${describeType(value)}` };
+      }
+      for (let index = 0; index < value.length; index++) {
+        const issue = validateValue(schema.items, value[index], [...path, index]);
+        if (issue) {
+          return issue;
+        }
+      }
+      return undefined;
+    }
+
+    case 'object': {
+      if (describeType(value) !== 'object') {
+        return { path, message: `expected object, got ${describeType(value)}` };
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const issue = validateValue(propertySchema, record[key], [...path, key]);
+        if (issue) {
+          return issue;
+        }
+      }
+      if (!schema.additionalProperties) {
+        for (const key of Object.keys(record)) {
+          if (!Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+            return { path: [...path, key], message: 'unexpected property' };
+          }
+        }
+      }
+      return undefined;
+    }
+
+    case 'optional':
+      return value === undefined ? undefined : validateValue(schema.schema, value, path);
+
+    case 'union': {
+      for (const candidate of schema.schemas) {
+        if (!validateValue(candidate, value, path)) {
+          return undefined;
+        }
+      }
+      return { path, message: 'did not match any of the allowed schemas' };
+    }
+
+    case 'literal':
+      return value === schema.value ? undefined : { path, message: `expected ${JSON.stringify(schema.value)}` };
+
+    default:
+      throw new Error(`Unknown argument schema type: ${(schema as any).type}`);
+  }
+}
+
+/**
+ * Validates arguments against a list of per-argument schemas.
+ * Arguments beyond the declared schemas are rejected.
+ *
+ * @param schemas - Schemas for each argument, by index
+ * @param args - The arguments to validate
+ * @returns The first issue found, or undefined if all arguments are valid
+ */
+export function validateArguments(schemas: ArgumentSchema[], args: unknown[]): ArgumentIssue | undefined {
+  for (let index = 0; index < schemas.length; index++) {
+    const issue = validateValue(schemas[index], args[index], []);
+    if (issue) {
+      return { argumentIndex: index, ...issue };
+    }
+  }
+
+  if (args.length > schemas.length) {
+    return { argumentIndex: schemas.length, path: [], message: `expected at most ${schemas.length} arguments, got ${args.length}` };
+  }
+
+  return undefined;
+}
+
+/**
+ * Throws `ArgumentValidationError` if arguments do not match the schemas declared for
+ * the constructor (`method` undefined) or a method of the class.
+ *
+ * @param className - Registered name of the class, used in the error
+ * @param extensions - Extension metadata of the class
+ * @param method - Name of the called method, or undefined for the constructor
+ * @param args - The arguments to validate
+ */
+export function assertValidArguments(
+  className: string,
+  extensions: ExtensionMetadata | undefined,
+  method: string | undefined,
+  args: unknown[]
+): void {
+  const schemas = method === undefined
+    ? extensions?.constructorArgs
+    : extensions?.methodArgs && Object.prototype.hasOwnProperty.call(extensions.methodArgs, method)
+      ? extensions.methodArgs[method]
+      : undefined;
+  if (!schemas) {
+    return;
+  }
+
+  const issue = validateArguments(schemas, args);
+  if (issue) {
+    throw new ArgumentValidationError(className, method ?? 'constructor', issue.argumentIndex, issue.path, issue.message);
+  }
+}
@@ -0,0 +1,269 @@
+import { parentPort } from 'node:worker_threads';
+import type { ClassMap, ExtensionMetadata, EventMessage, HostRequest, HostMessage, HostCreateResult, InvokeResponse } from '../common/types.js';
+import { EXTENSION_METADATA } from '../common/constants.js';
+import { serializeError } from '../common/errors.js';
+import { assertValidArguments } from '../common/validation.js';
+import { getEventProperties } from '../common/encoding.js';
+import { encodeCodecValues } from '../common/codecs.js';
+
+export { EXTENSION_METADATA } from '../common/constants.js';
+export { ObjProxyError, ArgumentValidationError, registerErrorClass } from '../common/errors.js';
+export { registerCodec } from '../common/codecs.js';
+export type { ExtensionMetadata, EventDeliveryPolicy, ArgumentSchema, SchemaValidator, SchemaIssue, ValueCodec } from '../common/types.js';
+
+/**
+ * Configuration options for initializing a process hosting classes.
+ */
+export interface InitObjProxyHostOptions {
+  /** Map of class names to the constructors of the classes hosted in this process */
+  classMap: Partial<ClassMap>;
+}
+
+/**
+ * The `process.parentPort` of an Electron utility process.
+ */
+interface UtilityParentPort {
+  on(event: 'message', listener: (event: { data: unknown }) => void): void;
+  postMessage(message: unknown): void;
+}
+
+/**
+ * Map of objectIds to hosted instances. ObjectIds are allocated by the main process.
+ */
+const objectMap: Record<number, object> = {};
+
+/**
+ * Registered class names of hosted instances, used in validation errors.
+ */
+const classNames = new WeakMap<object, string>();
+
+/**
+ * The classMap passed to initObjProxyHost.
+ */
+let registeredClassMap: Partial<ClassMap> = {};
+
+/**
+ * Sends a message to the main process.
+ */
+let postToMain: (message: HostMessage) => void = () => {
+  throw new Error('initObjProxyHost has not been called');
+};
+
+/**
+ * Returns the extension metadata declared on the class, if any.
+ */
+function getExtensionMetadata(ClassConstructor: unknown): ExtensionMetadata | undefined {
+  return (ClassConstructor as { [EXTENSION_METADATA]?: ExtensionMetadata } | undefined)?.[EXTENSION_METADATA];
+}
+
+/**
+ * Extension metadata declarations that are not supported for hosted classes.
+ */
+const UNSUPPORTED_EXTENSIONS = ['messagePort', 'needsCaller', 'properties', 'state'] as const;
+
+/**
+ * Warns about the classes of the classMap declaring extension metadata that is not
+ * supported for hosted classes, since those declarations have no effect.
+ */
+function warnUnsupportedExtensions(classMap: Partial<ClassMap>): void {
+  for (const [className, ClassConstructor] of Object.entries(classMap)) {
+    const extensions = getExtensionMetadata(ClassConstructor);
+    const unsupported = UNSUPPORTED_EXTENSIONS.filter((key) => extensions?.[key] !== undefined);
+    if (unsupported.length > 0) {
+      console.warn(`Hosted class '${className}' declares ${unsupported.join(', ')}, which is not supported for hosted classes and is ignored`);
+    }
+  }
+}
+
+/**
+ * Returns the part of extension metadata enforced by the main process.
+ * The other declarations are either handled here (argument schemas, dispose)
+ * or not supported for hosted classes (see {@link UNSUPPORTED_EXTENSIONS}).
+ */
+function toMainExtensions(extensions: ExtensionMetadata | undefined): ExtensionMetadata | undefined {
+  if (!extensions) {
+    return undefined;
+  }
+  const { allowedMethods, deniedMethods, batch, events } = extensions;
+  return { allowedMethods, deniedMethods, batch, events };
+}
+
+/**
+ * Overrides the dispatchEvent method of a hosted EventTarget to forward events to the
+ * main process, which forwards them to renderers.
+ */
+function overrideDispatchEvent(eventTarget: EventTarget, objectId: number): void {
+  const originalDispatchEvent = eventTarget.dispatchEvent.bind(eventTarget);
+
+  eventTarget.dispatchEvent = function (event: Event): boolean {
+    const result = originalDispatchEvent(event);
+
+    if (objectMap[objectId] !== eventTarget) {
+      return result;
+    }
+
+    const message: EventMessage = {
+      type: 'event',
+      objectId,
+      eventType: event.type,
+      detail: encodeCodecValues((event as any).detail),
+      properties: encodeCodecValues(getEventProperties(event)) as Record<string, unknown> | undefined,
+    };
+    try {
+      postToMain(message);
+    } catch (error) {
+      console.warn('Failed to forward event to main process:', error);
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Constructs an instance of a hosted class under the objectId allocated by the main process.
+ */
+function handleObjectCreation(objectId: number, className: string, args: unknown[]): HostCreateResult {
+  const ClassConstructor = (registeredClassMap as Record<string, (new (...args: any[]) => any) | undefined>)[className];
+  if (!ClassConstructor) {
+    throw new Error(`Class '${className}' is not registered in the classMap of the host`);
+  }
+
+  const extensions = getExtensionMetadata(ClassConstructor);
+  assertValidArguments(className, extensions, undefined, args);
+
+  const instance: object = new ClassConstructor(...args);
+  objectMap[objectId] = instance;
+  classNames.set(instance, className);
+
+  const isEventTarget = instance instanceof EventTarget;
+  if (isEventTarget) {
+    overrideDispatchEvent(instance, objectId);
+  }
+
+  return { isEventTarget, extensions: toMainExtensions(extensions) };
+}
+
+/**
+ * Calls a method of a hosted instance. Exposure of the method has been checked by the
+ * main process.
+ */
+async function handleMethodCall(objectId: number, method: string, args: unknown[]): Promise<unknown> {
+  const instance = objectMap[objectId];
+  if (!instance) {
+    throw new Error(`Object with ID ${objectId} not found`);
+  }
+
+  const methodFn = (instance as any)[method];
+  if (typeof methodFn !== 'function') {
+    throw new Error(`Method '${method}' not found on object with ID ${objectId}`);
+  }
+
+  assertValidArguments(classNames.get(instance) ?? 'Object', getExtensionMetadata(instance.constructor), method, args);
+
+  return methodFn.apply(instance, args);
+}
+
+/**
+ * Removes a hosted instance and calls its dispose hook: the method named by
+ * `[EXTENSION_METADATA].dispose`, or otherwise `[Symbol.dispose]` or `[Symbol.asyncDispose]`.
+ * Errors are reported as warnings. Unknown objectIds are ignored.
+ */
+async function handleObjectRelease(objectId: number): Promise<void> {
+  const instance = objectMap[objectId];
+  if (!instance) {
+    return;
+  }
+  delete objectMap[objectId];
+
+  const method = getExtensionMetadata(instance.constructor)?.dispose;
+  const disposer = method !== undefined
+    ? (instance as any)[method]
+    : (instance as any)[Symbol.dispose] ?? (instance as any)[Symbol.asyncDispose];
+  if (typeof disposer !== 'function') {
+    return;
+  }
+
+  try {
+    await disposer.call(instance);
+  } catch (error) {
+    console.warn('Failed to dispose object:', error);
+  }
+}
+
+/**
+ * Dispatches a request from the main process to the handler for its type.
+ */
+async function dispatchHostRequest(request: HostRequest): Promise<unknown> {
+  switch (request.type) {
+    case 'new':
+      return handleObjectCreation(request.objectId, request.className, request.args);
+
+    case 'call':
+      return handleMethodCall(request.objectId, request.method, request.args);
+
+    case 'release':
+      return handleObjectRelease(request.objectId);
+
+    default:
+      throw new Error(`Unknown host request type: ${(request as any).type}`);
+  }
+}
+
+/**
+ * Handles a request from the main process, responding with its result or error.
+ * Results that cannot be cloned are reported as errors.
+ */
+async function handleHostRequest(request: HostRequest): Promise<void> {
+  let response: InvokeResponse<unknown>;
+  try {
+    response = { result: await dispatchHostRequest(request) };
+  } catch (error) {
+    response = { error: serializeError(error) };
+  }
+
+  try {
+    postToMain({ type: 'response', requestId: request.requestId, response });
+  } catch (error) {
+    postToMain({ type: 'response', requestId: request.requestId, response: { error: serializeError(error) } });
+  }
+}
+
+/**
+ * Reports a response that could not be sent to the main process, which is left waiting
+ * for it until the host exits.
+ */
+function reportResponseFailure(error: unknown): void {
+  console.warn('Failed to respond to the main process:', error);
+}
+
+/**
+ * Initializes a process hosting classes for the main process: an Electron utility process
+ * or a Node worker thread. Call this synchronously when the process starts, so that no
+ * request from the main process is missed.
+ *
+ * @param options - Configuration options including the class map
+ */
+export function initObjProxyHost(options: InitObjProxyHostOptions): void {
+  registeredClassMap = options.classMap;
+  warnUnsupportedExtensions(options.classMap);
+
+  const utilityParentPort = (process as { parentPort?: UtilityParentPort }).parentPort;
+  if (utilityParentPort) {
+    postToMain = (message) => utilityParentPort.postMessage(message);
+    utilityParentPort.on('message', (event) => {
+      handleHostRequest(event.data as HostRequest).catch(reportResponseFailure);
+    });
+    return;
+  }
+
+  const workerParentPort = parentPort;
+  if (workerParentPort) {
+    postToMain = (message) => workerParentPort.postMessage(message);
+    workerParentPort.on('message', (request: HostRequest) => {
+      handleHostRequest(request).catch(reportResponseFailure);
+    });
+    return;
+  }
+
+  throw new Error('initObjProxyHost must be called in a utility process or a worker thread');
+}
@@ -0,0 +1,234 @@
+import type { UtilityProcess } from 'electron';
+import type { Worker } from 'node:worker_threads';
+import type { ExtensionMetadata, HostCreateRequest, HostCallRequest, HostReleaseRequest, HostCreateResult, HostMessage, HostRequest } from '../common/types.js';
+import { deserializeError } from '../common/errors.js';
+import { createForwardedEvent } from '../common/encoding.js';
+import { decodeCodecValues } from '../common/codecs.js';
+
+/**
+ * A process hosting classes: an Electron utility process or a Node worker thread
+ * that calls `initObjProxyHost` from `electron-objproxy/host`.
+ */
+export type ObjectHost = UtilityProcess | Worker;
+
+/**
+ * Request to a host before a requestId is assigned.
+ */
+type HostRequestBody =
+  | Omit<HostCreateRequest, 'requestId'>
+  | Omit<HostCallRequest, 'requestId'>
+  | Omit<HostReleaseRequest, 'requestId'>;
+
+/**
+ * Main-side state of the connection to a host.
+ */
+interface HostConnection {
+  host: ObjectHost;
+  /** Hosted objects by objectId, receiving the events dispatched in the host */
+  objects: Map<number, HostedObject>;
+  /** Requests waiting for a response, by requestId */
+  pendingRequests: Map<number, { resolve: (value: unknown) => void; reject: (reason: unknown) => void }>;
+  nextRequestId: number;
+  /** Set when the host has exited; later requests fail with this error */
+  exitError?: Error;
+}
+
+/**
+ * Symbol under which a placeholder created by `hostedClass` stores its host.
+ */
+const HOSTED_CLASS = Symbol('ELECTRON_OBJ_PROXY_HOSTED_CLASS');
+
+/**
+ * Connections by host, created on first use.
+ */
+const connections = new WeakMap<ObjectHost, HostConnection>();
+
+/**
+ * Returns a placeholder to register in `classMap` for a class hosted in another process.
+ * Instances are constructed in the host; the main process only routes requests and events.
+ *
+ * @example
+ * import type { Indexer } from './indexer';
+ *
+ * initObjProxy({
+ *   classMap: {
+ *     Indexer: hostedClass<typeof Indexer>(utilityProcess.fork(indexerHostPath)),
+ *   },
+ * });
+ *
+ * @param host - Utility process or worker thread calling `initObjProxyHost`
+ * @returns The placeholder, typed as the hosted class
+ */
+export function hostedClass<T>(host: ObjectHost): T {
+  const placeholder = function () {
+    throw new Error('Hosted classes cannot be instantiated in the main process');
+  };
+  (placeholder as any)[HOSTED_CLASS] = host;
+  return placeholder as T;
+}
+
+/**
+ * Returns true if a classMap entry is a placeholder created by `hostedClass`.
+ */
+export function isHostedClass(value: unknown): boolean {
+  return typeof value === 'function' && (value as any)[HOSTED_CLASS] !== undefined;
+}
+
+/**
+ * Creates the main-side stand-in of an instance of a hosted class, and requests its
+ * construction in the host. Throws if the arguments cannot be sent to the host.
+ */
+export function createHostedObject(placeholder: unknown, className: string, objectId: number, args: unknown[]): HostedObject {
+  return new HostedObject(getHostConnection((placeholder as any)[HOSTED_CLASS]), className, objectId, args);
+}
+
+/**
+ * Returns the connection to a host, listening to its messages on first use.
+ */
+function getHostConnection(host: ObjectHost): HostConnection {
+  const existing = connections.get(host);
+  if (existing) {
+    return existing;
+  }
+
+  const connection: HostConnection = { host, objects: new Map(), pendingRequests: new Map(), nextRequestId: 1 };
+  connections.set(host, connection);
+
+  const emitter: NodeJS.EventEmitter = host;
+  emitter.on('message', (message: HostMessage) => handleHostMessage(connection, message));
+  emitter.once('exit', (code: number) => {
+    const exitError = new Error(`Process hosting classes exited with code ${code}`);
+    connection.exitError = exitError;
+    for (const { reject } of connection.pendingRequests.values()) {
+      reject(exitError);
+    }
+    connection.pendingRequests.clear();
+  });
+
+  return connection;
+}
+
+/**
+ * Handles a message from a host: a response to a request, or an event of a hosted object.
+ */
+function handleHostMessage(connection: HostConnection, message: HostMessage): void {
+  switch (message.type) {
+    case 'response': {
+      const pending = connection.pendingRequests.get(message.requestId);
+      if (!pending) {
+        break;
+      }
+      connection.pendingRequests.delete(message.requestId);
+      if ('error' in message.response) {
+        pending.reject(deserializeError(message.response.error));
+      } else {
+        pending.resolve(message.response.result);
+      }
+      break;
+    }
+
+    case 'event': {
+      // Values encoded by codecs in the host are decoded here, and encoded again when
+      // the event is forwarded to renderers.
+      let event: Event;
+      try {
+        event = createForwardedEvent(
+          message.eventType,
+          decodeCodecValues(message.detail),
+          decodeCodecValues(message.properties) as Record<string, unknown> | undefined
+        );
+      } catch (error) {
+        console.warn(`Failed to decode event '${message.eventType}' from host:`, error);
+        break;
+      }
+      connection.objects.get(message.objectId)?.dispatchEvent(event);
+      break;
+    }
+
+    default:
+      console.warn(`Unknown message type from host: ${(message as any).type}`);
+  }
+}
+
+/**
+ * Sends a request to a host and returns a promise settled by its response.
+ * Throws synchronously if the request cannot be cloned.
+ */
+function sendHostRequest(connection: HostConnection, request: HostRequestBody): Promise<unknown> {
+  if (connection.exitError) {
+    return Promise.reject(connection.exitError);
+  }
+
+  const requestId = connection.nextRequestId++;
+  const promise = new Promise((resolve, reject) => {
+    connection.pendingRequests.set(requestId, { resolve, reject });
+  });
+
+  try {
+    (connection.host.postMessage as (message: HostRequest) => void).call(connection.host, { ...request, requestId } as HostRequest);
+  } catch (error) {
+    connection.pendingRequests.delete(requestId);
+    throw error;
+  }
+  return promise;
+}
+
+/**
+ * Main-side stand-in of an instance of a hosted class. It is managed in objectMap like
+ * other objects, forwards method calls to the host, and re-dispatches the events of
+ * the hosted instance so that they are forwarded to renderers.
+ */
+export class HostedObject extends EventTarget {
+  /** Resolves when the instance has been constructed in the host */
+  readonly ready: Promise<void>;
+
+  private result?: HostCreateResult;
+
+  constructor(
+    private readonly connection: HostConnection,
+    readonly className: string,
+    readonly objectId: number,
+    args: unknown[]
+  ) {
+    super();
+    this.ready = sendHostRequest(connection, { type: 'new', objectId, className, args }).then(
+      (result) => {
+        this.result = result as HostCreateResult;
+      },
+      (error) => {
+        connection.objects.delete(objectId);
+        throw error;
+      }
+    );
+    connection.objects.set(objectId, this);
+  }
+
+  /** Whether the hosted instance is an EventTarget; false until constructed */
+  get isEventTarget(): boolean {
+    return this.result?.isEventTarget ?? false;
+  }
+
+  /** Extension metadata reported by the host; undefined until constructed */
+  get extensions(): ExtensionMetadata | undefined {
+    return this.result?.extensions;
+  }
+
+  /**
+   * Calls a method of the hosted instance.
+   * Throws synchronously if the arguments cannot be sent to the host.
+   */
+  call(method: string, args: unknown[]): Promise<unknown> {
+    return sendHostRequest(this.connection, { type: 'call', objectId: this.objectId, method, args });
+  }
+
+  /**
+   * Releases the hosted instance, resolving when the host has disposed it.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.connection.objects.delete(this.objectId);
+    if (this.connection.exitError) {
+      return;
+    }
+    await sendHostRequest(this.connection, { type: 'release', objectId: this.objectId });
+  }
+}
@@ -1,19 +1,41 @@
-import { app, ipcMain, webContents, type WebContents } from 'electron';
+import { app, ipcMain, webContents, type Session, type WebContents, type WebFrameMain } from 'electron';
 import { AsyncLocalStorage } from 'node:async_hooks';
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
-import type { ClassMap, CreateObjectRequest, GetSingletonRequest, GetSingletonSyncRequest, CallMethodRequest, ReleaseObjectsMessage, CallWithPortMessage, ExtensionMetadata } from '../common/types.js';
-import { IPC_CHANNEL, EXTENSION_METADATA } from '../common/constants.js';
+import type { ClassMap, CreateObjectRequest, GetSingletonRequest, GetSingletonSyncRequest, CallMethodRequest, BatchCallRequest, BatchedCall, GetPropertyRequest, SetPropertyRequest, IteratorNextRequest, IteratorReturnRequest, ReleaseObjectsMessage, CallWithPortMessage, CallbackResultMessage, CallExposedObjectMessage, CancelCallMessage, DocumentCreatedMessage, ExportObjectRequest, ImportObjectRequest, PublishObjectRequest, GetPublishedObjectRequest, CallPublishedObjectRequest, CallRelayedFunctionRequest, UnpublishObjectMessage, ReleasePublishedObjectsMessage, ListenEventsMessage, CreateObjectResponse, InvokeCallbackMessage, InvokeResponse, EventMessage, EmitMessage, StateMessage, StatePatch, ExtensionMetadata, EventDeliveryPolicy, PropertyExtension, SingletonScope, EncodedObjectReference, EncodedFunctionReference, EncodedIteratorReference } from '../common/types.js';
+import { IPC_CHANNEL, EXTENSION_METADATA, ENCODED_VALUE_MARKER } from '../common/constants.js';
+import { transformValue, isEncodedValue, getEventProperties } from '../common/encoding.js';
+import { ObjProxyError, PermissionDeniedError, DisconnectedError, serializeError, deserializeError } from '../common/errors.js';
+import { assertValidArguments } from '../common/validation.js';
+import { encodeCodecValue, decodeCodecValue, encodeCodecValues } from '../common/codecs.js';
+import { observeState, getObservedState } from './state.js';
+import { HostedObject, isHostedClass, createHostedObject } from './hosted.js';
 
 export { EXTENSION_METADATA } from '../common/constants.js';
-export type { ExtensionMetadata, TransferablePort } from '../common/types.js';
+export { ObjProxyError, PermissionDeniedError, ArgumentValidationError, CallTimeoutError, DisconnectedError, registerErrorClass } from '../common/errors.js';
+export { registerCodec } from '../common/codecs.js';
+export type { ValueCodec, ExtensionMetadata, EventDeliveryPolicy, PropertyExtension, TransferablePort, ArgumentSchema, SchemaValidator, SchemaIssue, SingletonScope } from '../common/types.js';
+export { hostedClass, type ObjectHost } from './hosted.js';
+
+/**
+ * Context of a proxied method call, exposed to method bodies through `callContextStore`.
+ */
+interface CallContext {
+  /** Calling WebContents, set only for classes that opt in via `needsCaller` */
+  caller?: WebContents;
+  /** Signal aborted when the renderer cancels the call or it times out */
+  signal?: AbortSignal;
+}
 
 /**
  * AsyncLocalStorage used to expose the calling WebContents to method bodies
- * of classes that opt in via `ExtensionMetadata.needsCaller`.
+ * of classes that opt in via `ExtensionMetadata.needsCaller`, and the abort
+ * signal of cancellable calls.
  */
-const callerStore = new AsyncLocalStorage<WebContents>();
+const callContextStore = new AsyncLocalStorage<CallContext>();
 
 /**
  * Returns the WebContents that initiated the currently executing proxied method
@@ -26,7 +48,19 @@ const callerStore = new AsyncLocalStorage<WebContents>();
  * set up for classes that did not opt in.
  */
 export function getCurrentCaller(): WebContents | undefined {
-  return callerStore.getStore();
+  return callContextStore.getStore()?.caller;
+}
+
+/**
+ * Returns the AbortSignal of the currently executing proxied method call, or
+ * `undefined` if not inside such a call or if the call is not cancellable.
+ *
+ * A call is cancellable when the renderer makes it through `withOptions()` with a
+ * `signal` or `timeout`. The signal is aborted when the renderer's signal is aborted
+ * or the timeout elapses, and when the calling WebContents is destroyed.
+ */
+export function getCurrentSignal(): AbortSignal | undefined {
+  return callContextStore.getStore()?.signal;
 }
 
 const __filename = fileURLToPath(import.meta.url);
@@ -36,34 +70,127 @@ const __dirname = dirname(__filename);
  * Configuration options for initializing the object proxy system.
  */
 export interface InitObjProxyOptions {
-  /** Map of class names to their constructors */
+  /** Map of class names to their constructors, or to placeholders created by `hostedClass` */
   classMap: ClassMap;
+  /**
+   * When true, methods can only be called on objects whose class declares
+   * `allowedMethods` in its extension metadata; calls on other objects are rejected.
+   */
+  strict?: boolean;
+  /**
+   * Called for every request from a renderer before it is processed.
+   * Returning false rejects the request: the renderer receives a `PermissionDeniedError`
+   * (or, for fire-and-forget requests, the request is dropped with a warning).
+   */
+  authorize?: (request: AuthorizationRequest) => boolean;
+  /**
+   * Time in milliseconds to wait for objects to be disposed on `will-quit` before
+   * the application quits anyway. Defaults to 5000. Applies to the objects created
+   * through this instance.
+   */
+  disposeTimeout?: number;
+  /**
+   * IPC channel of the instance. Defaults to the channel of the bundled preload.
+   * Instances on other channels are reached through `exposeObjProxy` with the same channel.
+   */
+  channel?: string;
+  /**
+   * Whether to register the bundled preload script for all sessions. Defaults to true on the
+   * default channel. Set to false to call `exposeObjProxy` from your own preload instead.
+   */
+  registerPreload?: boolean;
+}
+
+/**
+ * Type of a request subject to authorization.
+ * `getSingleton` covers both asynchronous and synchronous singleton retrieval.
+ */
+export type AuthorizationRequestType = 'new' | 'getSingleton' | 'call' | 'callWithPort' | 'get' | 'set' | 'release' | 'export' | 'import' | 'publish' | 'getPublished' | 'callPublished';
+
+/**
+ * Request information passed to the `authorize` option of `initObjProxy`.
+ */
+export interface AuthorizationRequest {
+  /** Type of the request */
+  type: AuthorizationRequestType;
+  /** WebContents that sent the request */
+  sender: WebContents;
+  /** Frame that sent the request, or null if it has navigated or been destroyed */
+  senderFrame: WebFrameMain | null;
+  /** URL of the sender frame, or an empty string if unavailable */
+  url: string;
+  /** Origin of the sender frame, or an empty string if unavailable */
+  origin: string;
+  /**
+   * Name of the class the request targets, or the published name for `publish`,
+   * `getPublished` and `callPublished` requests
+   */
+  className: string;
+  /** Method name, for `call`, `callWithPort` and `callPublished` requests */
+  method?: string;
+  /** Property name, for `get` and `set` requests */
+  property?: string;
+}
+
+/**
+ * A renderer frame talking to the main process: the unit of object ownership,
+ * singleton subscription and message delivery.
+ * There is one instance per frame and proxy instance (see `getRendererFrame`), so
+ * instances can be compared by identity and used as keys.
+ */
+interface RendererFrame {
+  /** Proxy instance the frame talks to */
+  context: ProxyContext;
+  /** WebContents hosting the frame */
+  webContents: WebContents;
+  /**
+   * The frame, or null for requests whose frame was already gone when they arrived.
+   * Messages to a null frame are sent to the main frame of the WebContents.
+   */
+  frame: WebFrameMain | null;
+  /**
+   * Event types the frame listens to, by objectId; other events are not forwarded to it.
+   * Objects the frame has not reported listeners for yet have no entry, and all their
+   * events are forwarded (see `isListeningTo`).
+   */
+  eventTypes: Map<number, Set<string>>;
 }
 
 /**
  * Metadata for a non-singleton (owned) object in the main process.
- * The `owner` is the WebContents that requested the creation. It also serves as the
- * single event-forwarding target and as the lifecycle owner — the object is auto-released
- * when this WebContents is destroyed.
+ * `holders` initially contains the frame that requested the creation, and grows when
+ * the object is shared with other frames (see `exportObject`). Holders are the
+ * event-forwarding targets and share the object's lifecycle — the object is auto-released
+ * when the last holder releases it, is detached or loads a new document, or its
+ * WebContents is destroyed.
  */
 interface OwnedObjectMetadataMain {
   /** Unique identifier for the object */
   objectId: number;
-  /** Lifecycle owner. The object is auto-released when this WebContents is destroyed. */
-  owner: WebContents;
+  /** Proxy instance the object belongs to; renderers of other instances cannot reach it */
+  context: ProxyContext;
+  /** Lifecycle owners. The object is auto-released when the last of them goes away. */
+  holders: Set<RendererFrame>;
 }
 
 /**
  * Metadata for a singleton object in the main process.
- * `subscribers` is the set of WebContents that have obtained the singleton via getSingleton.
+ * `subscribers` is the set of frames that have obtained the singleton via getSingleton.
  * Events dispatched on the singleton are broadcast to every subscriber. There is no
- * lifecycle-owner concept: singletons live until the application exits.
+ * lifecycle-owner concept: singletons live until the application exits, except for
+ * per-WebContents singletons, which are released when their WebContents is destroyed.
  */
 interface SingletonObjectMetadataMain {
   /** Unique identifier for the object */
   objectId: number;
-  /** WebContents subscribed to this singleton's events. */
-  subscribers: Set<WebContents>;
+  /** Proxy instance the object belongs to; renderers of other instances cannot reach it */
+  context: ProxyContext;
+  /** Frames subscribed to this singleton's events. */
+  subscribers: Set<RendererFrame>;
+  /** Key of the singleton in singletonMap */
+  singletonKey: string;
+  /** WebContents or session the singleton is scoped to; undefined for app-wide singletons */
+  scope?: WebContents | Session;
 }
 
 /**
@@ -72,53 +199,430 @@ interface SingletonObjectMetadataMain {
  */
 type ObjectMetadataMain = OwnedObjectMetadataMain | SingletonObjectMetadataMain;
 
+/**
+ * State of a proxy instance created by `initObjProxy`: its IPC channel, configuration
+ * and the renderer frames talking to it. ObjectIds are allocated across instances, but
+ * each object belongs to one instance (see `getManagedObject`).
+ */
+interface ProxyContext {
+  /** IPC channel of the instance */
+  channel: string;
+  /** Registered class map for object creation */
+  classMap: ClassMap;
+  /** Whether strict mode (mandatory `allowedMethods` declarations) is enabled */
+  strict: boolean;
+  /** Authorization hook, if configured */
+  authorize?: InitObjProxyOptions['authorize'];
+  /** Renderer frames per WebContents, keyed by frame (null for requests without a live frame) */
+  rendererFrames: Map<WebContents, Map<WebFrameMain | null, RendererFrame>>;
+  /** Current publications by name */
+  publications: Map<string, PublicationMain>;
+  /** Time in milliseconds to wait for the objects created through the instance to be disposed on `will-quit` */
+  disposeTimeout: number;
+}
+
+/**
+ * Proxy instances by IPC channel.
+ */
+const contexts = new Map<string, ProxyContext>();
+
+/**
+ * Whether the application-wide listeners shared by all proxy instances are installed.
+ */
+let appListenersInstalled = false;
+
+/**
+ * Object exported by a renderer and waiting to be imported with its token.
+ */
+interface ObjectExportMain {
+  objectId: number;
+  /** Timer expiring the token */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Pending object exports, keyed by token.
+ */
+const objectExports = new Map<string, ObjectExportMain>();
+
+/**
+ * Time in milliseconds after which an unused export token expires.
+ */
+const OBJECT_EXPORT_TIMEOUT = 60 * 1000;
+
+/**
+ * Object published by a renderer frame under a name.
+ */
+interface PublicationMain {
+  publisher: RendererFrame;
+  /**
+   * Distinguishes successive publications under the same name. Allocated from the
+   * objectIds, so that callbacks and relayed functions can be bound to the publication.
+   */
+  publicationId: number;
+}
+
 /**
  * Map to store objects managed by the main process.
  */
 const objectMap: Record<number, object> = {};
 
 /**
- * Map to store singleton objects by class name.
- * Singletons are never released once created.
+ * Map to store singleton objects by class name, scope and key (see `getSingletonKey`).
+ * Singletons are never released once created, except for per-WebContents singletons.
  */
 const singletonMap: Record<string, number> = {};
 
+/**
+ * IDs of the WebContents and sessions that singletons are scoped to, used in singletonMap keys.
+ */
+const singletonScopeIds = new WeakMap<WebContents | Session, number>();
+
+/**
+ * Next singleton scope ID to be assigned.
+ */
+let nextSingletonScopeId = 1;
+
 /**
  * Next object ID to be assigned.
  */
 let nextObjectId = 1;
 
 /**
- * Registered class map for object creation.
+ * Progress of disposing the remaining objects on `will-quit`.
+ */
+let quitDisposalState: 'idle' | 'disposing' | 'done' = 'idle';
+
+/**
+ * Methods inherited from Object, EventTarget and EventEmitter, which are never callable
+ * remotely unless explicitly listed in `allowedMethods`. They include `constructor`,
+ * `dispatchEvent` and `emit`, which would otherwise let a renderer forge events.
  */
-let registeredClassMap: ClassMap = {};
+const BUILTIN_METHOD_NAMES = new Set([
+  ...Object.getOwnPropertyNames(Object.prototype),
+  ...Object.getOwnPropertyNames(EventTarget.prototype),
+  ...Object.getOwnPropertyNames(EventEmitter.prototype),
+]);
 
 /**
  * Symbol used to store metadata on objects.
  */
 const OBJECT_METADATA_SYMBOL = Symbol('ELECTRON_OBJ_PROXY_MAIN_METADATA');
 
+/**
+ * EventTargets whose dispatchEvent has already been overridden.
+ */
+const overriddenEventTargets = new WeakSet<EventTarget>();
+
+/**
+ * EventEmitters whose emit has already been overridden.
+ */
+const overriddenEventEmitters = new WeakSet<EventEmitter>();
+
+/**
+ * Instances created by the proxy layer (with `new` or as singletons), which are disposed
+ * when released, with the proxy instance that created them. Instances only referenced
+ * because a method returned them belong to the application and are never disposed by
+ * the proxy layer.
+ */
+const createdInstances = new WeakMap<object, ProxyContext>();
+
+/**
+ * Stub for a renderer callback received as a method argument.
+ * The callback is bound to the object it was passed to, and is released together
+ * with that object's proxy in the renderer or when the renderer frame is gone.
+ */
+interface RemoteCallbackMain {
+  /** Object the callback was passed to (as method or constructor argument) */
+  objectId: number;
+  /** Function handed to main-process code in place of the renderer callback */
+  stub: (...args: unknown[]) => Promise<unknown>;
+  /** Set once released; invoking the stub then rejects without contacting the renderer */
+  released: boolean;
+}
+
+/**
+ * Callback stubs per renderer frame, keyed by the renderer-assigned callback ID.
+ */
+const remoteCallbacks = new Map<RendererFrame, Map<number, RemoteCallbackMain>>();
+
+/**
+ * Function of a renderer (a callback stub) relayed to another renderer frame,
+ * through which published objects and their callers call each other's functions.
+ */
+interface RelayedFunctionMain {
+  /** Frame allowed to call the function */
+  receiver: RendererFrame;
+  /** Publication the function is bound to; it is released when the publication is withdrawn */
+  publicationId: number;
+  fn: (...args: unknown[]) => Promise<unknown>;
+}
+
+/**
+ * Relayed functions keyed by function ID.
+ */
+const relayedFunctions = new Map<number, RelayedFunctionMain>();
+
+/**
+ * Next function ID to be assigned to a relayed function.
+ */
+let nextFunctionId = 1;
+
+/**
+ * Callback invocations waiting for a `callbackResult` message, keyed by call ID.
+ */
+const pendingCallbackCalls = new Map<number, {
+  owner: RendererFrame;
+  /** Object to which callbacks in the result are bound */
+  objectId: number;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}>();
+
+/**
+ * Next callback call ID to be assigned.
+ */
+let nextCallbackCallId = 1;
+
+/**
+ * Async iterator exposed to a renderer as the result of a method call or property read.
+ */
+interface RemoteIteratorMain {
+  /** Frame that received the iterator and may pull from it */
+  owner: RendererFrame;
+  /** The underlying iterator */
+  iterator: AsyncIterator<unknown>;
+}
+
+/**
+ * Map of iterator IDs to iterators exposed to renderers.
+ * Entries are removed when the iterator is done, fails, is closed by the renderer,
+ * or when the owner frame is gone.
+ */
+const remoteIterators = new Map<number, RemoteIteratorMain>();
+
+/**
+ * Next iterator ID to be assigned.
+ */
+let nextIteratorId = 1;
+
+/**
+ * Abort controllers of in-flight cancellable method calls per renderer frame,
+ * keyed by the renderer-assigned call ID.
+ */
+const cancellableCalls = new Map<RendererFrame, Map<number, AbortController>>();
+
+/**
+ * State patches of observed instances waiting to be sent at the end of the current task.
+ */
+const pendingStatePatches = new Map<object, StatePatch[]>();
+
+/**
+ * Delivery window of the events of one type of an object to one renderer frame,
+ * open while events of the type are being throttled, coalesced or batched.
+ */
+interface HeldEventsMain {
+  policy: EventDeliveryPolicy;
+  timer: ReturnType<typeof setTimeout>;
+  /** The latest event (`'latest'`) or the collected events (`'batch'`) waiting to be sent */
+  messages: (EventMessage | EmitMessage)[];
+}
+
+/**
+ * Open delivery windows by recipient frame and by `JSON.stringify([objectId, eventType])`.
+ */
+const heldEvents = new Map<RendererFrame, Map<string, HeldEventsMain>>();
+
+/**
+ * Union of requests sent from renderer processes via invoke.
+ */
+type InvokeRequest =
+  | CreateObjectRequest
+  | GetSingletonRequest
+  | CallMethodRequest
+  | BatchCallRequest
+  | GetPropertyRequest
+  | SetPropertyRequest
+  | IteratorNextRequest
+  | IteratorReturnRequest
+  | ExportObjectRequest
+  | ImportObjectRequest
+  | PublishObjectRequest
+  | GetPublishedObjectRequest
+  | CallPublishedObjectRequest
+  | CallRelayedFunctionRequest;
+
+/**
+ * Returns the renderer frame that sent an IPC request.
+ */
+function getRendererFrame(context: ProxyContext, event: Electron.IpcMainEvent | Electron.IpcMainInvokeEvent): RendererFrame {
+  return lookupRendererFrame(context, event.sender, event.senderFrame ?? null);
+}
+
+/**
+ * Returns the RendererFrame instance of a frame of a WebContents, creating it on first use.
+ */
+function lookupRendererFrame(context: ProxyContext, wc: WebContents, frame: WebFrameMain | null): RendererFrame {
+  let frames = context.rendererFrames.get(wc);
+  if (!frames) {
+    frames = new Map();
+    context.rendererFrames.set(wc, frames);
+  }
+
+  let rendererFrame = frames.get(frame);
+  if (!rendererFrame) {
+    rendererFrame = { context, webContents: wc, frame, eventTypes: new Map() };
+    frames.set(frame, rendererFrame);
+  }
+  return rendererFrame;
+}
+
+/**
+ * Returns true if a renderer frame can still receive messages: it has not been
+ * released, and neither it nor its WebContents is destroyed or detached.
+ */
+function isFrameAlive(frame: RendererFrame): boolean {
+  if (frame.context.rendererFrames.get(frame.webContents)?.get(frame.frame) !== frame || frame.webContents.isDestroyed()) {
+    return false;
+  }
+  return frame.frame === null || (!frame.frame.isDestroyed() && !frame.frame.detached);
+}
+
+/**
+ * Sends a message to a renderer frame, unless it is destroyed.
+ */
+function sendToFrame(frame: RendererFrame, message: EventMessage | EmitMessage | StateMessage | InvokeCallbackMessage | CallExposedObjectMessage): void {
+  if (frame.frame) {
+    if (!frame.frame.isDestroyed()) {
+      frame.frame.send(frame.context.channel, message);
+    }
+  } else if (!frame.webContents.isDestroyed()) {
+    frame.webContents.send(frame.context.channel, message);
+  }
+}
+
 /**
  * Handles IPC invoke requests from renderer processes.
+ * Errors are returned serialized in the response envelope, so that the renderer can
+ * rethrow them with their name, code, cause and properties intact.
  */
 async function handleInvokeRequest(
+  context: ProxyContext,
+  event: Electron.IpcMainInvokeEvent,
+  payload: InvokeRequest
+): Promise<InvokeResponse<unknown>> {
+  releaseDetachedFrames(context, event.sender);
+  try {
+    return { result: await dispatchInvokeRequest(context, event, payload) };
+  } catch (error) {
+    return { error: serializeError(error) };
+  }
+}
+
+/**
+ * Handles a batch of method calls.
+ * The calls are started in order, without waiting for each other to settle, as if
+ * they had been sent as separate requests. Each result is returned in its own envelope.
+ */
+async function handleBatchCall(
+  context: ProxyContext,
+  event: Electron.IpcMainInvokeEvent,
+  calls: BatchedCall[]
+): Promise<InvokeResponse<unknown>[]> {
+  return Promise.all(calls.map(({ objectId, method, args }) =>
+    handleInvokeRequest(context, event, { type: 'call', objectId, method, args })
+  ));
+}
+
+/**
+ * Dispatches an IPC invoke request to the handler for its type.
+ */
+async function dispatchInvokeRequest(
+  context: ProxyContext,
   event: Electron.IpcMainInvokeEvent,
-  payload: CreateObjectRequest | GetSingletonRequest | CallMethodRequest
-): Promise<any> {
+  payload: InvokeRequest
+): Promise<unknown> {
+  const sender = getRendererFrame(context, event);
+
   switch (payload.type) {
     case 'new': {
       const { className, args } = payload;
-      return handleObjectCreation(event.sender, className, args);
+      authorizeRequest(context, event, 'new', className);
+      return whenConstructed(handleObjectCreation(sender, className, args));
     }
 
     case 'getSingleton': {
-      const { className, args } = payload;
-      return handleGetSingleton(event.sender, className, args);
+      const { className, args, key, scope } = payload;
+      authorizeRequest(context, event, 'getSingleton', className);
+      return whenConstructed(handleGetSingleton(sender, className, args, key, scope));
     }
 
     case 'call': {
-      const { objectId, method, args } = payload;
-      return handleMethodCall(event.sender, objectId, method, args);
+      const { objectId, method, args, callId } = payload;
+      authorizeObjectRequest(context, event, 'call', objectId, method);
+      return handleMethodCall(sender, objectId, method, args, callId);
+    }
+
+    // Each call in a batch is authorized and settled individually
+    case 'batch': {
+      return handleBatchCall(context, event, payload.calls);
+    }
+
+    case 'get': {
+      const { objectId, property } = payload;
+      authorizeObjectRequest(context, event, 'get', objectId, property);
+      return handlePropertyGet(sender, objectId, property);
+    }
+
+    case 'set': {
+      const { objectId, property, value } = payload;
+      authorizeObjectRequest(context, event, 'set', objectId, property);
+      return handlePropertySet(sender, objectId, property, value);
+    }
+
+    // Iterators are only reachable by their owner, who was authorized for the call that returned them
+    case 'iteratorNext': {
+      return handleIteratorNext(sender, payload.iteratorId);
+    }
+
+    case 'iteratorReturn': {
+      return handleIteratorReturn(sender, payload.iteratorId);
+    }
+
+    case 'export': {
+      const { objectId, transfer } = payload;
+      authorizeObjectRequest(context, event, 'export', objectId);
+      return handleObjectExport(sender, objectId, transfer);
+    }
+
+    // Importing is authorized against the class of the exported object
+    case 'import': {
+      const objectId = objectExports.get(payload.token)?.objectId;
+      if (objectId !== undefined) {
+        authorizeObjectRequest(context, event, 'import', objectId);
+      }
+      return handleObjectImport(sender, payload.token);
+    }
+
+    case 'publish': {
+      authorizeRequest(context, event, 'publish', payload.name);
+      return handlePublishObject(sender, payload.name);
+    }
+
+    case 'getPublished': {
+      authorizeRequest(context, event, 'getPublished', payload.name);
+      return handleGetPublishedObject(context, payload.name);
+    }
+
+    case 'callPublished': {
+      const { name, publicationId, method, args } = payload;
+      authorizeRequest(context, event, 'callPublished', name, method);
+      return handlePublishedObjectCall(sender, name, publicationId, method, args);
+    }
+
+    // Relayed functions are only reachable by their receiver, who was authorized for the call that passed them
+    case 'callFunction': {
+      return handleRelayedFunctionCall(sender, payload.functionId, payload.args);
     }
 
     default:
@@ -130,269 +634,1979 @@ async function handleInvokeRequest(
  * Handles IPC send requests from renderer processes.
  */
 function handleSendRequest(
+  context: ProxyContext,
   event: Electron.IpcMainEvent,
-  message: ReleaseObjectsMessage | GetSingletonSyncRequest | CallWithPortMessage
+  message: ReleaseObjectsMessage | GetSingletonSyncRequest | CallWithPortMessage | CallbackResultMessage | CancelCallMessage | DocumentCreatedMessage | UnpublishObjectMessage | ReleasePublishedObjectsMessage | ListenEventsMessage
 ): void {
+  releaseDetachedFrames(context, event.sender);
   switch (message.type) {
     case 'release': {
-      const { objectIds } = message;
-      handleObjectRelease(objectIds);
+      const objectIds = message.objectIds.filter((objectId) => isRequestAuthorized(context, event, 'release', objectId));
+      handleObjectRelease(getRendererFrame(context, event), objectIds);
       break;
     }
 
     case 'getSingletonSync': {
-      const { className, args } = message;
-      const result = handleGetSingleton(event.sender, className, args);
-      event.returnValue = result;
+      // The renderer blocks until returnValue is set, so errors are always returned.
+      const { className, args, key, scope } = message;
+      let response: InvokeResponse<unknown>;
+      try {
+        authorizeRequest(context, event, 'getSingleton', className);
+        if (isHostedClassName(context, className)) {
+          throw new Error(`Singleton of hosted class '${className}' cannot be obtained synchronously`);
+        }
+        response = { result: handleGetSingleton(getRendererFrame(context, event), className, args, key, scope) };
+      } catch (error) {
+        response = { error: serializeError(error) };
+      }
+      event.returnValue = response;
       break;
     }
 
     case 'callWithPort': {
       const { objectId, method, args } = message;
-      handleMethodCallWithPort(event.sender, objectId, method, args, event.ports);
+      if (!isRequestAuthorized(context, event, 'callWithPort', objectId, method)) {
+        console.warn(`Permission denied: 'callWithPort' of '${method}' on object with ID ${objectId}`);
+        break;
+      }
+      handleMethodCallWithPort(getRendererFrame(context, event), objectId, method, args, event.ports);
+      break;
+    }
+
+    case 'callbackResult': {
+      handleCallbackResult(getRendererFrame(context, event), message);
+      break;
+    }
+
+    case 'cancel': {
+      const { callId, reason } = message;
+      handleCallCancel(getRendererFrame(context, event), callId, reason ? deserializeError(reason) : undefined);
+      break;
+    }
+
+    case 'unpublish': {
+      handleUnpublishObject(getRendererFrame(context, event), message.name);
+      break;
+    }
+
+    // Only releases what the sender itself passed or received through the publications
+    case 'releasePublished': {
+      handlePublishedObjectRelease(getRendererFrame(context, event), message.publicationIds);
+      break;
+    }
+
+    case 'listen': {
+      handleListenEvents(getRendererFrame(context, event), message.objectId, message.eventTypes);
+      break;
+    }
+
+    // A new document (navigation or reload) ends the previous page generation of its frame,
+    // and for a main frame, that of every frame of the WebContents
+    case 'documentCreated': {
+      if (!event.senderFrame) {
+        break;
+      }
+      if (event.senderFrame.parent) {
+        releaseObjectsForFrame(getRendererFrame(context, event));
+      } else {
+        releaseContextFrames(context, event.sender);
+      }
       break;
     }
 
-    default:
-      console.warn(`Unknown send request type: ${(message as any).type}`);
-  }
+    default:
+      console.warn(`Unknown send request type: ${(message as any).type}`);
+  }
+}
+
+/**
+ * Returns the name under which the instance's class is registered in classMap,
+ * falling back to the constructor name for classes exposed otherwise.
+ */
+function getClassName(context: ProxyContext, instance: object): string {
+  if (instance instanceof HostedObject) {
+    return instance.className;
+  }
+  const ctor = (instance as { constructor?: { name?: string } }).constructor;
+  for (const [className, ClassConstructor] of Object.entries(context.classMap)) {
+    if (ClassConstructor === ctor) {
+      return className;
+    }
+  }
+  return ctor?.name ?? 'Object';
+}
+
+/**
+ * Runs the authorization hook for a request, throwing `PermissionDeniedError` on rejection.
+ * Requests are always allowed when no hook is configured.
+ */
+function authorizeRequest(
+  context: ProxyContext,
+  event: Electron.IpcMainEvent | Electron.IpcMainInvokeEvent,
+  type: AuthorizationRequestType,
+  className: string,
+  member?: string
+): void {
+  if (!context.authorize) {
+    return;
+  }
+
+  const senderFrame = event.senderFrame;
+  const request: AuthorizationRequest = {
+    type,
+    sender: event.sender,
+    senderFrame,
+    url: senderFrame?.url ?? '',
+    origin: senderFrame?.origin ?? '',
+    className,
+  };
+  if (type === 'call' || type === 'callWithPort' || type === 'callPublished') {
+    request.method = member;
+  } else if (type === 'get' || type === 'set') {
+    request.property = member;
+  }
+
+  if (!context.authorize(request)) {
+    throw new PermissionDeniedError(type, className, member);
+  }
+}
+
+/**
+ * Returns the metadata of a managed object if the object belongs to the given proxy
+ * instance. Objects of other instances are treated as unknown, so that a renderer of
+ * one instance cannot reach them by guessing their objectIds.
+ */
+function getManagedMetadata(context: ProxyContext, objectId: number): ObjectMetadataMain | undefined {
+  const metadata = (objectMap[objectId] as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+  return metadata?.context === context ? metadata : undefined;
+}
+
+/**
+ * Returns a managed object if it belongs to the given proxy instance (see `getManagedMetadata`).
+ */
+function getManagedObject(context: ProxyContext, objectId: number): object | undefined {
+  return getManagedMetadata(context, objectId) && objectMap[objectId];
+}
+
+/**
+ * Runs the authorization hook for a request targeting an existing object.
+ * Unknown objects are left to the request handler, which reports them as not found.
+ */
+function authorizeObjectRequest(
+  context: ProxyContext,
+  event: Electron.IpcMainEvent | Electron.IpcMainInvokeEvent,
+  type: AuthorizationRequestType,
+  objectId: number,
+  member?: string
+): void {
+  const instance = getManagedObject(context, objectId);
+  if (instance) {
+    authorizeRequest(context, event, type, getClassName(context, instance), member);
+  }
+}
+
+/**
+ * Returns whether a fire-and-forget request targeting an existing object is authorized.
+ */
+function isRequestAuthorized(
+  context: ProxyContext,
+  event: Electron.IpcMainEvent,
+  type: AuthorizationRequestType,
+  objectId: number,
+  member?: string
+): boolean {
+  try {
+    authorizeObjectRequest(context, event, type, objectId, member);
+    return true;
+  } catch (error) {
+    if (error instanceof PermissionDeniedError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the extension metadata declared on the instance's class, if any.
+ */
+function getExtensionMetadata(instance: object): ExtensionMetadata | undefined {
+  if (instance instanceof HostedObject) {
+    return instance.extensions;
+  }
+  const ctor = (instance as { constructor?: unknown }).constructor as
+    | { [EXTENSION_METADATA]?: ExtensionMetadata }
+    | undefined;
+  return ctor?.[EXTENSION_METADATA];
+}
+
+/**
+ * Returns true if renderers see the instance as an EventTarget.
+ * For hosted objects, this is whether the instance in the host is one.
+ */
+function isRemoteEventTarget(instance: object): boolean {
+  return instance instanceof HostedObject ? instance.isEventTarget : instance instanceof EventTarget;
+}
+
+/**
+ * Returns true if a class name is registered in classMap as a hosted class.
+ */
+function isHostedClassName(context: ProxyContext, className: string): boolean {
+  return isHostedClass((context.classMap as Record<string, unknown>)[className]);
+}
+
+/**
+ * Returns the part of extension metadata sent to renderers.
+ * Argument schemas are only used in the main process and may contain functions,
+ * which cannot be transferred.
+ */
+function toRendererExtensions(extensions: ExtensionMetadata | undefined): ExtensionMetadata | undefined {
+  if (!extensions) {
+    return undefined;
+  }
+  const { constructorArgs, methodArgs, ...rendererExtensions } = extensions;
+  return rendererExtensions;
+}
+
+/**
+ * Stores an instance in objectMap under the given (by default, a fresh) objectId,
+ * and starts observing its state when the class declares `[EXTENSION_METADATA].state`.
+ * The caller is responsible for attaching the appropriate ObjectMetadataMain variant
+ * and calling forwardEvents.
+ */
+function registerInstance(
+  instance: object,
+  objectId: number = nextObjectId++
+): { objectId: number; instance: object; isEventTarget: boolean; isEventEmitter: boolean; extensions?: ExtensionMetadata; state?: unknown } {
+  objectMap[objectId] = instance;
+
+  const isEventTarget = instance instanceof EventTarget;
+  const isEventEmitter = instance instanceof EventEmitter;
+  const extensionMetadata = getExtensionMetadata(instance);
+  const extensions = toRendererExtensions(extensionMetadata);
+
+  if (extensionMetadata?.state) {
+    observeState(instance, extensionMetadata.state, (patch) => queueStatePatch(instance, patch));
+  }
+
+  return { objectId, instance, isEventTarget, isEventEmitter, extensions, state: getObservedState(instance) };
+}
+
+/**
+ * Throws `ObjProxyError` if arguments for a hosted class contain values that cannot be
+ * sent to the host: callbacks and remote objects, which only exist in the main process.
+ */
+function assertHostableArguments(className: string, method: string, args: unknown[]): void {
+  transformValue(args, (value) => {
+    if (typeof value === 'function') {
+      throw new ObjProxyError(`Callbacks cannot be passed to '${className}.${method}': the class is hosted in another process`);
+    }
+    if ((value as any)[OBJECT_METADATA_SYMBOL] !== undefined || value instanceof HostedObject) {
+      throw new ObjProxyError(`Remote objects cannot be passed to '${className}.${method}': the class is hosted in another process`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Instantiates a registered class and stores it in objectMap with a fresh objectId.
+ * When `sender` is given, `args` are decoded as values received from that renderer,
+ * and callbacks among them are bound to the new object.
+ * The caller is responsible for attaching the appropriate ObjectMetadataMain variant
+ * and calling forwardEvents.
+ */
+function instantiateRegisteredClass(
+  context: ProxyContext,
+  className: string,
+  args: unknown[],
+  sender?: RendererFrame
+): { objectId: number; instance: object; isEventTarget: boolean; isEventEmitter: boolean; extensions?: ExtensionMetadata; state?: unknown } {
+  const ClassConstructor = (context.classMap as Record<string, new (...args: any[]) => any>)[className];
+  if (!ClassConstructor) {
+    throw new Error(`Class '${className}' is not registered in classMap`);
+  }
+
+  const objectId = nextObjectId++;
+
+  let instance: object;
+  try {
+    let decodedArgs = args;
+    if (sender) {
+      decodedArgs = decodeValue(sender, objectId, args) as unknown[];
+      assertValidArguments(className, (ClassConstructor as any)[EXTENSION_METADATA], undefined, decodedArgs);
+    }
+    if (isHostedClass(ClassConstructor)) {
+      assertHostableArguments(className, 'constructor', decodedArgs);
+      instance = createHostedObject(ClassConstructor, className, objectId, decodedArgs);
+    } else {
+      instance = new ClassConstructor(...decodedArgs);
+    }
+  } catch (error) {
+    if (sender) {
+      releaseCallbacks(sender, [objectId]);
+    }
+    throw error;
+  }
+
+  if (instance instanceof HostedObject) {
+    const hostedObject = instance;
+    hostedObject.ready.catch(() => discardHostedObject(hostedObject));
+  }
+
+  createdInstances.set(instance, context);
+  return registerInstance(instance, objectId);
+}
+
+/**
+ * Waits for a hosted object to be constructed in its host, and completes a creation
+ * response with the details reported by the host. Other responses are returned as is.
+ * Throws the construction error if the host failed to construct the object.
+ */
+async function whenConstructed<T extends { objectId: number; isEventTarget: boolean; extensions?: ExtensionMetadata }>(
+  response: T
+): Promise<T> {
+  const instance = objectMap[response.objectId];
+  if (!(instance instanceof HostedObject)) {
+    return response;
+  }
+
+  await instance.ready;
+  return { ...response, isEventTarget: instance.isEventTarget, extensions: toRendererExtensions(instance.extensions) };
+}
+
+/**
+ * Removes a hosted object whose construction failed in its host, so that a later
+ * request for the same singleton creates a new one.
+ */
+function discardHostedObject(instance: HostedObject): void {
+  const metadata = (instance as any)[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+  if (!metadata || objectMap[metadata.objectId] !== instance) {
+    return;
+  }
+  delete objectMap[metadata.objectId];
+
+  if ('subscribers' in metadata && singletonMap[metadata.singletonKey] === metadata.objectId) {
+    delete singletonMap[metadata.singletonKey];
+  }
+}
+
+/**
+ * Attaches owned-object metadata to a freshly registered instance, making `owner`
+ * its lifecycle owner and event-forwarding target.
+ */
+function attachOwnedMetadata(instance: object, objectId: number, isEventTarget: boolean, owner: RendererFrame): void {
+  const metadata: OwnedObjectMetadataMain = { objectId, context: owner.context, holders: new Set([owner]) };
+  (instance as any)[OBJECT_METADATA_SYMBOL] = metadata;
+
+  forwardEvents(instance, isEventTarget);
+}
+
+/**
+ * Creates a new owned (non-singleton) object instance and manages it.
+ * The requesting frame becomes the lifecycle owner.
+ */
+function handleObjectCreation(
+  sender: RendererFrame,
+  className: string,
+  args: unknown[]
+): { objectId: number; isEventTarget: boolean; isEventEmitter: boolean; extensions?: ExtensionMetadata; state?: unknown } {
+  const { objectId, instance, isEventTarget, isEventEmitter, extensions, state } = instantiateRegisteredClass(sender.context, className, args, sender);
+
+  attachOwnedMetadata(instance, objectId, isEventTarget, sender);
+
+  return { objectId, isEventTarget, isEventEmitter, extensions, state };
+}
+
+/**
+ * Returns the singletonMap key of a singleton.
+ * Singletons are distinguished by class name, scope (app-wide, or a WebContents or session)
+ * and an optional application-defined key.
+ */
+function getSingletonKey(context: ProxyContext, className: string, key?: string, scope?: WebContents | Session): string {
+  let scopeId = 0;
+  if (scope) {
+    scopeId = singletonScopeIds.get(scope) ?? nextSingletonScopeId++;
+    singletonScopeIds.set(scope, scopeId);
+  }
+  return JSON.stringify([context.channel, className, scopeId, key ?? null]);
+}
+
+/**
+ * Resolves the scope of a singleton requested by a renderer.
+ */
+function resolveSingletonScope(sender: RendererFrame, scope: SingletonScope = 'app'): WebContents | Session | undefined {
+  switch (scope) {
+    case 'app':
+      return undefined;
+    case 'webContents':
+      return sender.webContents;
+    case 'session':
+      return sender.webContents.session;
+    default:
+      throw new Error(`Unknown singleton scope: ${scope}`);
+  }
+}
+
+/**
+ * Gets or creates a singleton object instance.
+ * If the singleton already exists, `subscriber` (if any) is added to its subscribers.
+ * Otherwise, a new instance is created with `args` and registered with singleton metadata.
+ * When `subscriber` is given, `args` are decoded as values received from that renderer.
+ */
+function getOrCreateSingleton(
+  context: ProxyContext,
+  className: string,
+  args: unknown[],
+  key: string | undefined,
+  scope: WebContents | Session | undefined,
+  subscriber?: RendererFrame
+): { objectId: number; instance: object; isEventTarget: boolean; isEventEmitter: boolean; extensions?: ExtensionMetadata; state?: unknown } {
+  const singletonKey = getSingletonKey(context, className, key, scope);
+
+  const existingObjectId = singletonMap[singletonKey];
+  if (existingObjectId !== undefined) {
+    const instance = objectMap[existingObjectId];
+    if (instance) {
+      const metadata = (instance as any)[OBJECT_METADATA_SYMBOL] as SingletonObjectMetadataMain;
+      // Subscribe to broadcasts (no-op if already subscribed).
+      if (subscriber) {
+        metadata.subscribers.add(subscriber);
+      }
+
+      const isEventTarget = isRemoteEventTarget(instance);
+      const isEventEmitter = instance instanceof EventEmitter;
+      const extensions = toRendererExtensions(getExtensionMetadata(instance));
+
+      return { objectId: existingObjectId, instance, isEventTarget, isEventEmitter, extensions, state: getObservedState(instance) };
+    }
+  }
+
+  // Singleton doesn't exist: create a fresh instance with singleton metadata.
+  const created = instantiateRegisteredClass(context, className, args, subscriber);
+
+  const metadata: SingletonObjectMetadataMain = {
+    objectId: created.objectId,
+    context,
+    subscribers: new Set(subscriber ? [subscriber] : []),
+    singletonKey,
+    scope,
+  };
+  (created.instance as any)[OBJECT_METADATA_SYMBOL] = metadata;
+
+  // Override dispatchEvent (or emit) up front so that later subscribers receive events.
+  forwardEvents(created.instance, created.isEventTarget);
+
+  singletonMap[singletonKey] = created.objectId;
+
+  return created;
+}
+
+/**
+ * Gets or creates a singleton object instance for a renderer, subscribing the
+ * sender to its events.
+ */
+function handleGetSingleton(
+  sender: RendererFrame,
+  className: string,
+  args: unknown[],
+  key?: string,
+  scope?: SingletonScope
+): { objectId: number; isEventTarget: boolean; isEventEmitter: boolean; extensions?: ExtensionMetadata; state?: unknown } {
+  const { objectId, isEventTarget, isEventEmitter, extensions, state } = getOrCreateSingleton(
+    sender.context,
+    className,
+    args,
+    key,
+    resolveSingletonScope(sender, scope),
+    sender
+  );
+  return { objectId, isEventTarget, isEventEmitter, extensions, state };
+}
+
+/**
+ * Returns true if the instance's class opts into caller-context injection
+ * via `[EXTENSION_METADATA].needsCaller`.
+ */
+function needsCallerContext(instance: object): boolean {
+  return getExtensionMetadata(instance)?.needsCaller === true;
+}
+
+/**
+ * Throws if the method may not be called remotely on the instance, according to the
+ * `allowedMethods` / `deniedMethods` declarations of its class and strict mode.
+ */
+function assertMethodExposed(context: ProxyContext, instance: object, objectId: number, method: string): void {
+  const extensions = getExtensionMetadata(instance);
+
+  if (extensions?.allowedMethods) {
+    if (extensions.allowedMethods.includes(method) || extensions.messagePort?.methods.includes(method)) {
+      return;
+    }
+    throw new Error(`Method '${method}' is not exposed on object with ID ${objectId}`);
+  }
+
+  if (context.strict) {
+    throw new Error(`Object with ID ${objectId} does not declare allowedMethods, which is required in strict mode`);
+  }
+
+  if (BUILTIN_METHOD_NAMES.has(method) || extensions?.deniedMethods?.includes(method)) {
+    throw new Error(`Method '${method}' is not exposed on object with ID ${objectId}`);
+  }
+}
+
+/**
+ * Returns true if the value can be exposed to renderers as a remote object:
+ * an instance of a class registered in classMap, or of a class declaring
+ * `[EXTENSION_METADATA]`.
+ */
+function isProxiableInstance(context: ProxyContext, value: object): boolean {
+  if (typeof value !== 'object') {
+    return false;
+  }
+  const ctor = (value as { constructor?: unknown }).constructor;
+  if (typeof ctor !== 'function') {
+    return false;
+  }
+  return Object.values(context.classMap).includes(ctor) || getExtensionMetadata(value) !== undefined;
+}
+
+/**
+ * Returns a reference to the given object if it is exposed to renderers, or `undefined`.
+ * - Objects already managed by objectMap are referenced by their existing objectId.
+ *   For singletons, the receiver is subscribed to their events.
+ * - Other proxiable instances are registered as owned objects with `receiver` as owner.
+ *   They are unregistered, but not disposed, when released.
+ */
+function referenceObject(receiver: RendererFrame, value: object): EncodedObjectReference | undefined {
+  const metadata = (value as any)[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+  if (metadata && objectMap[metadata.objectId] === value) {
+    if (metadata.context !== receiver.context) {
+      throw new Error(`Object with ID ${metadata.objectId} belongs to the proxy instance on channel '${metadata.context.channel}'`);
+    }
+    if ('subscribers' in metadata) {
+      metadata.subscribers.add(receiver);
+    }
+    return {
+      [ENCODED_VALUE_MARKER]: 'object',
+      objectId: metadata.objectId,
+      isEventTarget: isRemoteEventTarget(value),
+      isEventEmitter: value instanceof EventEmitter,
+      extensions: toRendererExtensions(getExtensionMetadata(value)),
+      state: getObservedState(value),
+    };
+  }
+
+  if (!isProxiableInstance(receiver.context, value)) {
+    return undefined;
+  }
+
+  const { objectId, isEventTarget, isEventEmitter, extensions, state } = registerInstance(value);
+  attachOwnedMetadata(value, objectId, isEventTarget, receiver);
+
+  return { [ENCODED_VALUE_MARKER]: 'object', objectId, isEventTarget, isEventEmitter, extensions, state };
+}
+
+/**
+ * Returns true if the value is an async iterable (e.g. an async generator or a stream).
+ */
+function isAsyncIterable(value: object): value is AsyncIterable<unknown> {
+  return typeof (value as any)[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Exposes an async iterable to a renderer, returning a reference to its iterator.
+ * Each exposed iterable is iterated once, by the receiving renderer.
+ */
+function referenceIterator(receiver: RendererFrame, iterable: AsyncIterable<unknown>): EncodedIteratorReference {
+  const iteratorId = nextIteratorId++;
+  remoteIterators.set(iteratorId, { owner: receiver, iterator: iterable[Symbol.asyncIterator]() });
+  return { [ENCODED_VALUE_MARKER]: 'iterator', iteratorId };
+}
+
+/**
+ * Encodes a value sent to a renderer, replacing proxiable objects with references
+ * and async iterables with iterator references.
+ * When `publicationId` is given, the value comes from another renderer through a published
+ * object, and its functions (callback stubs) are relayed to the receiver.
+ */
+function encodeValue(receiver: RendererFrame, value: unknown, publicationId?: number): unknown {
+  return transformValue(value, (current) => {
+    if (typeof current === 'function' && publicationId !== undefined) {
+      return relayFunction(receiver, current as RelayedFunctionMain['fn'], publicationId);
+    }
+    const reference = referenceObject(receiver, current);
+    if (reference) {
+      return reference;
+    }
+    if (isAsyncIterable(current)) {
+      return referenceIterator(receiver, current);
+    }
+    return encodeCodecValue(current) ?? current;
+  });
+}
+
+/**
+ * Looks up an iterator exposed to the sender.
+ */
+function getRemoteIterator(sender: RendererFrame, iteratorId: number): RemoteIteratorMain {
+  const remoteIterator = remoteIterators.get(iteratorId);
+  if (!remoteIterator || remoteIterator.owner !== sender) {
+    throw new Error(`Iterator with ID ${iteratorId} not found`);
+  }
+  return remoteIterator;
+}
+
+/**
+ * Pulls the next value of an exposed iterator.
+ * The iterator is forgotten once it is done or fails.
+ */
+async function handleIteratorNext(sender: RendererFrame, iteratorId: number): Promise<IteratorResult<unknown>> {
+  const { iterator } = getRemoteIterator(sender, iteratorId);
+
+  let result: IteratorResult<unknown>;
+  try {
+    result = await iterator.next();
+  } catch (error) {
+    remoteIterators.delete(iteratorId);
+    throw error;
+  }
+
+  if (result.done) {
+    remoteIterators.delete(iteratorId);
+  }
+
+  return { done: result.done, value: encodeValue(sender, result.value) };
+}
+
+/**
+ * Closes an exposed iterator early, letting e.g. an async generator run its `finally` blocks.
+ */
+async function handleIteratorReturn(sender: RendererFrame, iteratorId: number): Promise<void> {
+  const { iterator } = getRemoteIterator(sender, iteratorId);
+  remoteIterators.delete(iteratorId);
+  await iterator.return?.();
+}
+
+/**
+ * Closes every iterator exposed to a renderer frame.
+ */
+function closeAllIterators(owner: RendererFrame): void {
+  for (const [iteratorId, remoteIterator] of remoteIterators) {
+    if (remoteIterator.owner === owner) {
+      remoteIterators.delete(iteratorId);
+      remoteIterator.iterator.return?.()?.catch((error) => {
+        console.warn(`Failed to close iterator with ID ${iteratorId}:`, error);
+      });
+    }
+  }
+}
+
+/**
+ * Decodes a value received from a renderer.
+ * Object references are resolved to the instances stored in objectMap, and callback
+ * references are turned into stubs bound to the object identified by `objectId`.
+ */
+function decodeValue(sender: RendererFrame, objectId: number, value: unknown): unknown {
+  return transformValue(value, (current) => {
+    if (!isEncodedValue(current)) {
+      return current;
+    }
+
+    switch (current[ENCODED_VALUE_MARKER]) {
+      case 'object': {
+        const instance = getManagedObject(sender.context, current.objectId);
+        if (!instance) {
+          throw new Error(`Object with ID ${current.objectId} not found`);
+        }
+        return instance;
+      }
+
+      case 'callback':
+        return getCallbackStub(sender, current.callbackId, objectId);
+
+      case 'codec':
+        return decodeCodecValue(current);
+
+      default:
+        throw new Error(`Unknown encoded value: ${(current as any)[ENCODED_VALUE_MARKER]}`);
+    }
+  });
+}
+
+/**
+ * Returns the stub for a renderer callback, creating it on first use.
+ * The same callback ID always maps to the same stub, so that main-process code can
+ * compare callbacks (e.g., to remove a previously added listener).
+ */
+function getCallbackStub(owner: RendererFrame, callbackId: number, objectId: number): RemoteCallbackMain['stub'] {
+  let callbacks = remoteCallbacks.get(owner);
+  if (!callbacks) {
+    callbacks = new Map();
+    remoteCallbacks.set(owner, callbacks);
+  }
+
+  const existing = callbacks.get(callbackId);
+  if (existing) {
+    return existing.stub;
+  }
+
+  const callback: RemoteCallbackMain = {
+    objectId,
+    released: false,
+    stub: (...args: unknown[]) => {
+      const promise = invokeRemoteCallback(owner, callbackId, callback, args);
+      // Callers commonly invoke callbacks without awaiting them; avoid unhandled rejections
+      // while still letting callers that await observe the failure.
+      promise.catch(() => {});
+      return promise;
+    },
+  };
+  callbacks.set(callbackId, callback);
+
+  return callback.stub;
+}
+
+/**
+ * Sends a callback invocation to the owning renderer and waits for its result.
+ */
+function invokeRemoteCallback(
+  owner: RendererFrame,
+  callbackId: number,
+  callback: RemoteCallbackMain,
+  args: unknown[]
+): Promise<unknown> {
+  if (callback.released || !isFrameAlive(owner)) {
+    return Promise.reject(new Error(`Callback with ID ${callbackId} has been released`));
+  }
+
+  return sendRendererCall(owner, (callId) => ({
+    type: 'callback',
+    callbackId,
+    callId,
+    args: encodeValue(owner, args) as unknown[],
+  }));
+}
+
+/**
+ * Sends a call to a renderer frame and waits for the `callbackResult` message
+ * carrying its outcome. Callbacks in the result are bound to `objectId`.
+ */
+function sendRendererCall(
+  owner: RendererFrame,
+  createMessage: (callId: number) => InvokeCallbackMessage | CallExposedObjectMessage,
+  objectId = 0
+): Promise<unknown> {
+  const callId = nextCallbackCallId++;
+
+  if (releaseFrameIfGone(owner)) {
+    return Promise.reject(new Error('Renderer frame handling the call is gone'));
+  }
+
+  return new Promise((resolve, reject) => {
+    pendingCallbackCalls.set(callId, { owner, objectId, resolve, reject });
+
+    try {
+      sendToFrame(owner, createMessage(callId));
+    } catch (error) {
+      pendingCallbackCalls.delete(callId);
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Settles a pending callback invocation with the result reported by the renderer.
+ */
+function handleCallbackResult(sender: RendererFrame, message: CallbackResultMessage): void {
+  const pending = pendingCallbackCalls.get(message.callId);
+  if (!pending || pending.owner !== sender) {
+    return;
+  }
+  pendingCallbackCalls.delete(message.callId);
+
+  if (message.error) {
+    pending.reject(deserializeError(message.error));
+    return;
+  }
+
+  try {
+    pending.resolve(decodeValue(sender, pending.objectId, message.result));
+  } catch (error) {
+    pending.reject(error);
+  }
+}
+
+/**
+ * Releases the callbacks that `owner` passed to the given objects.
+ */
+function releaseCallbacks(owner: RendererFrame, objectIds: number[]): void {
+  const callbacks = remoteCallbacks.get(owner);
+  if (!callbacks) {
+    return;
+  }
+
+  const released = new Set(objectIds);
+  for (const [callbackId, callback] of callbacks) {
+    if (released.has(callback.objectId)) {
+      callback.released = true;
+      callbacks.delete(callbackId);
+    }
+  }
+}
+
+/**
+ * Releases every callback of a renderer frame and rejects the pending calls made to it
+ * (callback invocations and exposed object calls).
+ */
+function releaseAllCallbacks(owner: RendererFrame): void {
+  const callbacks = remoteCallbacks.get(owner);
+  if (callbacks) {
+    for (const callback of callbacks.values()) {
+      callback.released = true;
+    }
+    remoteCallbacks.delete(owner);
+  }
+
+  for (const [callId, pending] of pendingCallbackCalls) {
+    if (pending.owner === owner) {
+      pendingCallbackCalls.delete(callId);
+      pending.reject(new Error('Renderer frame handling the call is gone'));
+    }
+  }
+}
+
+/**
+ * Runs a function in the call context of a proxied call, if one is needed:
+ * when the instance's class opts into `needsCaller`, or the call is cancellable.
+ */
+function runInCallContext<T>(sender: RendererFrame, instance: object, signal: AbortSignal | undefined, fn: () => T): T {
+  const caller = needsCallerContext(instance) ? sender.webContents : undefined;
+  if (!caller && !signal) {
+    return fn();
+  }
+  return callContextStore.run({ caller, signal }, fn);
+}
+
+/**
+ * Handles method calls on managed objects.
+ * When `callId` is given, the call is cancellable: its AbortSignal is available to the
+ * method via `getCurrentSignal()` until the call settles.
+ */
+async function handleMethodCall(
+  sender: RendererFrame,
+  objectId: number,
+  method: string,
+  args: unknown[],
+  callId?: number
+): Promise<unknown> {
+  if (callId === undefined) {
+    return invokeMethod(sender, objectId, method, args, undefined);
+  }
+
+  let calls = cancellableCalls.get(sender);
+  if (!calls) {
+    calls = new Map();
+    cancellableCalls.set(sender, calls);
+  }
+  const controller = new AbortController();
+  calls.set(callId, controller);
+
+  try {
+    return await invokeMethod(sender, objectId, method, args, controller.signal);
+  } finally {
+    calls.delete(callId);
+  }
+}
+
+/**
+ * Aborts an in-flight cancellable method call.
+ */
+function handleCallCancel(sender: RendererFrame, callId: number, reason: unknown): void {
+  cancellableCalls.get(sender)?.get(callId)?.abort(reason);
+}
+
+/**
+ * Aborts every in-flight cancellable method call of a renderer frame.
+ */
+function abortAllCalls(frame: RendererFrame): void {
+  const calls = cancellableCalls.get(frame);
+  if (!calls) {
+    return;
+  }
+  cancellableCalls.delete(frame);
+  for (const controller of calls.values()) {
+    controller.abort(new Error('Renderer frame that made the call is gone'));
+  }
+}
+
+/**
+ * Invokes a method on a managed object and encodes its result.
+ */
+async function invokeMethod(
+  sender: RendererFrame,
+  objectId: number,
+  method: string,
+  args: unknown[],
+  signal: AbortSignal | undefined
+): Promise<unknown> {
+  const instance = getManagedObject(sender.context, objectId);
+  if (!instance) {
+    throw new Error(`Object with ID ${objectId} not found`);
+  }
+
+  assertMethodExposed(sender.context, instance, objectId, method);
+
+  // Arguments are validated in the host, which holds the argument schemas
+  if (instance instanceof HostedObject) {
+    const decodedArgs = decodeValue(sender, objectId, args) as unknown[];
+    assertHostableArguments(instance.className, method, decodedArgs);
+    return encodeValue(sender, await instance.call(method, decodedArgs));
+  }
+
+  const methodFn = (instance as any)[method];
+  if (typeof methodFn !== 'function') {
+    throw new Error(`Method '${method}' not found on object with ID ${objectId}`);
+  }
+
+  const decodedArgs = decodeValue(sender, objectId, args) as unknown[];
+  assertValidArguments(getClassName(sender.context, instance), getExtensionMetadata(instance), method, decodedArgs);
+
+  const result = await runInCallContext(sender, instance, signal, () => methodFn.apply(instance, decodedArgs));
+
+  return encodeValue(sender, result);
+}
+
+/**
+ * Looks up an object and the declaration of one of its exposed properties.
+ * Throws if the object does not exist, is hosted in another process, or the property
+ * is not declared in `ExtensionMetadata.properties`.
+ */
+function getExposedProperty(context: ProxyContext, objectId: number, property: string): { instance: object; extension: PropertyExtension } {
+  const instance = getManagedObject(context, objectId);
+  if (!instance) {
+    throw new Error(`Object with ID ${objectId} not found`);
+  }
+  if (instance instanceof HostedObject) {
+    throw new Error(`Property '${property}' cannot be accessed: properties are not supported on hosted class '${instance.className}'`);
+  }
+
+  const properties = getExtensionMetadata(instance)?.properties;
+  if (!properties || !Object.prototype.hasOwnProperty.call(properties, property)) {
+    throw new Error(`Property '${property}' is not exposed on object with ID ${objectId}`);
+  }
+
+  return { instance, extension: properties[property] };
+}
+
+/**
+ * Handles property reads on managed objects.
+ */
+async function handlePropertyGet(
+  sender: RendererFrame,
+  objectId: number,
+  property: string
+): Promise<unknown> {
+  const { instance } = getExposedProperty(sender.context, objectId, property);
+
+  const value = runInCallContext(sender, instance, undefined, () => (instance as any)[property]);
+
+  return encodeValue(sender, value);
+}
+
+/**
+ * Handles property assignments on managed objects.
+ */
+async function handlePropertySet(
+  sender: RendererFrame,
+  objectId: number,
+  property: string,
+  value: unknown
+): Promise<void> {
+  const { instance, extension } = getExposedProperty(sender.context, objectId, property);
+  if (extension.readonly) {
+    throw new Error(`Property '${property}' is read-only on object with ID ${objectId}`);
+  }
+
+  const decodedValue = decodeValue(sender, objectId, value);
+
+  runInCallContext(sender, instance, undefined, () => {
+    (instance as any)[property] = decodedValue;
+  });
+}
+
+/**
+ * Handles method calls with MessagePort transfer (fire-and-forget).
+ * Ports are passed as the last argument to the method as MessagePortMain[].
+ */
+function handleMethodCallWithPort(
+  sender: RendererFrame,
+  objectId: number,
+  method: string,
+  args: unknown[],
+  ports: Electron.MessagePortMain[]
+): void {
+  const instance = getManagedObject(sender.context, objectId);
+  if (!instance) {
+    console.warn(`Object with ID ${objectId} not found for callWithPort`);
+    return;
+  }
+
+  try {
+    assertMethodExposed(sender.context, instance, objectId, method);
+  } catch (error) {
+    console.warn((error as Error).message);
+    return;
+  }
+
+  const methodFn = (instance as any)[method];
+  if (typeof methodFn !== 'function') {
+    console.warn(`Method '${method}' not found on object with ID ${objectId}`);
+    return;
+  }
+
+  let decodedArgs: unknown[];
+  try {
+    decodedArgs = decodeValue(sender, objectId, args) as unknown[];
+    assertValidArguments(getClassName(sender.context, instance), getExtensionMetadata(instance), method, decodedArgs);
+  } catch (error) {
+    console.warn(`Invalid arguments for '${method}' on object with ID ${objectId}:`, error);
+    return;
+  }
+
+  // Call the method with args + ports as last argument
+  runInCallContext(sender, instance, undefined, () => methodFn.apply(instance, [...decodedArgs, ports]));
+}
+
+/**
+ * Handles object release requests.
+ * Callbacks the sender passed to the objects, and the event types it listened to on them,
+ * are released. Owned objects are released
+ * once no holder is left: references to singletons or to objects held by other frames
+ * only (obtained as method results) do not affect the object's lifecycle.
+ */
+function handleObjectRelease(sender: RendererFrame, objectIds: number[]): void {
+  releaseCallbacks(sender, objectIds);
+
+  for (const objectId of objectIds) {
+    sender.eventTypes.delete(objectId);
+    const metadata = getManagedMetadata(sender.context, objectId);
+    if (metadata && 'holders' in metadata && metadata.holders.has(sender)) {
+      removeHolder(metadata, sender);
+    }
+  }
+}
+
+/**
+ * Removes a holder from an owned object (see `releaseIfUnheld`).
+ */
+function removeHolder(metadata: OwnedObjectMetadataMain, holder: RendererFrame): void {
+  metadata.holders.delete(holder);
+  releaseIfUnheld(metadata);
+}
+
+/**
+ * Releases an owned object if no holder is left and no export of the object is pending.
+ */
+function releaseIfUnheld(metadata: OwnedObjectMetadataMain): void {
+  if (metadata.holders.size > 0 || objectMap[metadata.objectId] === undefined) {
+    return;
+  }
+  for (const objectExport of objectExports.values()) {
+    if (objectExport.objectId === metadata.objectId) {
+      return;
+    }
+  }
+  releaseInstance(metadata.objectId);
+}
+
+/**
+ * Exports an owned object held by the sender, returning a single-use token with which
+ * another frame can import it within `OBJECT_EXPORT_TIMEOUT`.
+ * With `transfer`, the sender stops holding the object (and the callbacks it passed to
+ * the object are released); otherwise the object is shared until all holders release it.
+ */
+function handleObjectExport(sender: RendererFrame, objectId: number, transfer: boolean): string {
+  const metadata = getManagedMetadata(sender.context, objectId);
+  if (!metadata) {
+    throw new Error(`Object with ID ${objectId} not found`);
+  }
+  if (!('holders' in metadata)) {
+    throw new Error(`Singleton object with ID ${objectId} cannot be exported`);
+  }
+  if (!metadata.holders.has(sender)) {
+    throw new Error(`Object with ID ${objectId} is not held by the sender`);
+  }
+
+  const token = randomUUID();
+  const timer = setTimeout(() => {
+    objectExports.delete(token);
+    releaseIfUnheld(metadata);
+  }, OBJECT_EXPORT_TIMEOUT);
+  timer.unref();
+  objectExports.set(token, { objectId, timer });
+
+  if (transfer) {
+    releaseCallbacks(sender, [objectId]);
+    sender.eventTypes.delete(objectId);
+    metadata.holders.delete(sender);
+  }
+
+  return token;
+}
+
+/**
+ * Imports an object exported with `handleObjectExport`, making the sender one of its holders.
+ */
+function handleObjectImport(sender: RendererFrame, token: string): CreateObjectResponse {
+  const objectExport = objectExports.get(token);
+  // Objects exported through another proxy instance cannot be imported through this one
+  const exportedMetadata = objectExport && (objectMap[objectExport.objectId] as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+  if (!objectExport || (exportedMetadata && exportedMetadata.context !== sender.context)) {
+    throw new Error('Export token is invalid or has expired');
+  }
+  objectExports.delete(token);
+  clearTimeout(objectExport.timer);
+
+  const { objectId } = objectExport;
+  const instance = objectMap[objectId];
+  if (!instance) {
+    throw new Error(`Object with ID ${objectId} has been released`);
+  }
+  const metadata = (instance as any)[OBJECT_METADATA_SYMBOL] as OwnedObjectMetadataMain;
+  metadata.holders.add(sender);
+
+  return {
+    objectId,
+    isEventTarget: isRemoteEventTarget(instance),
+    isEventEmitter: instance instanceof EventEmitter,
+    extensions: toRendererExtensions(getExtensionMetadata(instance)),
+    state: getObservedState(instance),
+  };
+}
+
+/**
+ * Publishes the object the sender exposes under a name, replacing its previous publication
+ * under the same name. Throws if another live frame has published an object under the name.
+ */
+function handlePublishObject(sender: RendererFrame, name: string): number {
+  const { publications } = sender.context;
+  const existing = publications.get(name);
+  if (existing && existing.publisher !== sender && isFrameAlive(existing.publisher)) {
+    throw new Error(`An object is already published under the name '${name}'`);
+  }
+  withdrawPublication(sender.context, name);
+
+  const publicationId = nextObjectId++;
+  publications.set(name, { publisher: sender, publicationId });
+  return publicationId;
+}
+
+/**
+ * Withdraws the publication under a name, if any, releasing the callbacks the publisher
+ * returned from it and the functions relayed through it.
+ */
+function withdrawPublication(context: ProxyContext, name: string): void {
+  const publication = context.publications.get(name);
+  if (!publication) {
+    return;
+  }
+  context.publications.delete(name);
+
+  releaseCallbacks(publication.publisher, [publication.publicationId]);
+  for (const [functionId, relayed] of relayedFunctions) {
+    if (relayed.publicationId === publication.publicationId) {
+      relayedFunctions.delete(functionId);
+    }
+  }
+}
+
+/**
+ * Records the event types the sender listens to on an object, replacing the previously
+ * reported ones. Reports for objects the sender does not hold or subscribe to are ignored.
+ */
+function handleListenEvents(sender: RendererFrame, objectId: number, eventTypes: string[]): void {
+  const metadata = getManagedMetadata(sender.context, objectId);
+  if (!metadata || !('subscribers' in metadata ? metadata.subscribers : metadata.holders).has(sender)) {
+    return;
+  }
+
+  // Kept even when empty, since an object without an entry has all its events forwarded
+  sender.eventTypes.set(objectId, new Set(eventTypes));
+}
+
+/**
+ * Withdraws an object published by the sender.
+ */
+function handleUnpublishObject(sender: RendererFrame, name: string): void {
+  if (sender.context.publications.get(name)?.publisher === sender) {
+    withdrawPublication(sender.context, name);
+  }
+}
+
+/**
+ * Handles the release of the sender's proxies to publications: the callbacks it passed
+ * through them, and the functions relayed to it in their results, are released.
+ */
+function handlePublishedObjectRelease(sender: RendererFrame, publicationIds: number[]): void {
+  releaseCallbacks(sender, publicationIds);
+  releaseRelayedFunctions(sender, publicationIds);
+}
+
+/**
+ * Returns the ID of the current publication under a name.
+ */
+function handleGetPublishedObject(context: ProxyContext, name: string): number {
+  const publication = context.publications.get(name);
+  if (!publication || !isFrameAlive(publication.publisher)) {
+    throw new Error(`No object is published under the name '${name}'`);
+  }
+  return publication.publicationId;
+}
+
+/**
+ * Relays a method call to the frame publishing an object, and encodes its result for the sender.
+ * Objects and callbacks are passed in both directions: callbacks of the sender are bound to
+ * the publication, and those returned by the publisher are relayed to the sender.
+ * Throws `DisconnectedError` if the publication has been withdrawn, including while the call
+ * is in flight.
+ */
+async function handlePublishedObjectCall(
+  sender: RendererFrame,
+  name: string,
+  publicationId: number,
+  method: string,
+  args: unknown[]
+): Promise<unknown> {
+  const { publications } = sender.context;
+  const publication = publications.get(name);
+  if (!publication || publication.publicationId !== publicationId || !isFrameAlive(publication.publisher)) {
+    throw new DisconnectedError(name);
+  }
+
+  const { publisher } = publication;
+  const decodedArgs = decodeValue(sender, publicationId, args);
+
+  let result: unknown;
+  try {
+    result = await sendRendererCall(publisher, (callId) => ({
+      type: 'callExposed',
+      callId,
+      name,
+      method,
+      args: encodeValue(publisher, decodedArgs, publicationId) as unknown[],
+      publicationId,
+    }), publicationId);
+  } catch (error) {
+    if (publications.get(name) !== publication) {
+      throw new DisconnectedError(name);
+    }
+    throw error;
+  }
+
+  if (publications.get(name) !== publication) {
+    throw new DisconnectedError(name);
+  }
+  return encodeValue(sender, result, publicationId);
+}
+
+/**
+ * Relays a function of a renderer to another renderer frame, returning its reference.
+ * A function relayed again to the same frame keeps its ID.
+ */
+function relayFunction(receiver: RendererFrame, fn: RelayedFunctionMain['fn'], publicationId: number): EncodedFunctionReference {
+  for (const [functionId, relayed] of relayedFunctions) {
+    if (relayed.fn === fn && relayed.receiver === receiver) {
+      return { [ENCODED_VALUE_MARKER]: 'function', functionId };
+    }
+  }
+
+  const functionId = nextFunctionId++;
+  relayedFunctions.set(functionId, { receiver, publicationId, fn });
+  return { [ENCODED_VALUE_MARKER]: 'function', functionId };
+}
+
+/**
+ * Calls a function relayed to the sender, and encodes its result for the sender.
+ * Throws if the function has been released, e.g. because its publication was withdrawn.
+ */
+async function handleRelayedFunctionCall(sender: RendererFrame, functionId: number, args: unknown[]): Promise<unknown> {
+  const relayed = relayedFunctions.get(functionId);
+  if (!relayed || relayed.receiver !== sender) {
+    throw new Error(`Function with ID ${functionId} has been released`);
+  }
+
+  const { publicationId, fn } = relayed;
+  const result = await fn(...(decodeValue(sender, publicationId, args) as unknown[]));
+  return encodeValue(sender, result, publicationId);
+}
+
+/**
+ * Releases the functions relayed to a frame, all of them or those bound to the given publications.
+ */
+function releaseRelayedFunctions(receiver: RendererFrame, publicationIds?: number[]): void {
+  for (const [functionId, relayed] of relayedFunctions) {
+    if (relayed.receiver === receiver && (!publicationIds || publicationIds.includes(relayed.publicationId))) {
+      relayedFunctions.delete(functionId);
+    }
+  }
+}
+
+/**
+ * Cleans up references to a renderer frame that is gone or has loaded a new document.
+ * - Owned (non-singleton) objects whose owner matches `frame` are released.
+ * - Singleton objects keep living, but `frame` is removed from their subscribers set
+ *   so future dispatches do not target the dead frame.
+ * - Objects published by `frame` are withdrawn.
+ * - Callbacks passed by `frame` and functions relayed to it are released, its in-flight
+ *   cancellable calls are aborted, and the iterators exposed to it are closed.
+ * Later requests from the same frame are handled as coming from a new `RendererFrame`.
+ */
+function releaseObjectsForFrame(frame: RendererFrame): void {
+  const { rendererFrames, publications } = frame.context;
+  rendererFrames.get(frame.webContents)?.delete(frame.frame);
+
+  for (const [name, publication] of publications) {
+    if (publication.publisher === frame) {
+      withdrawPublication(frame.context, name);
+    }
+  }
+
+  releaseAllCallbacks(frame);
+  releaseRelayedFunctions(frame);
+  abortAllCalls(frame);
+  closeAllIterators(frame);
+  discardHeldEvents(frame);
+
+  for (const key of Object.keys(objectMap)) {
+    const objectId = Number(key);
+    const metadata = (objectMap[objectId] as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+    if (!metadata) {
+      continue;
+    }
+    if ('subscribers' in metadata) {
+      metadata.subscribers.delete(frame);
+    } else if (metadata.holders.has(frame)) {
+      removeHolder(metadata, frame);
+    }
+  }
+}
+
+/**
+ * Cleans up references to the frames of a WebContents talking to one proxy instance
+ * (see `releaseObjectsForFrame`). Invoked when the main frame loads a new document,
+ * which each instance's preload reports on its own channel.
+ */
+function releaseContextFrames(context: ProxyContext, wc: WebContents): void {
+  for (const frame of [...(context.rendererFrames.get(wc)?.values() ?? [])]) {
+    releaseObjectsForFrame(frame);
+  }
+}
+
+/**
+ * Cleans up references to every frame of a WebContents in all proxy instances.
+ * Singletons scoped to `wc` are released as well when `destroyed` is true.
+ * Invoked when a WebContents is destroyed (e.g., window closed) and when its renderer
+ * process is gone.
+ */
+function releaseObjectsForWebContents(wc: WebContents, destroyed = true): void {
+  for (const context of contexts.values()) {
+    releaseContextFrames(context, wc);
+  }
+
+  if (!destroyed) {
+    return;
+  }
+  for (const context of contexts.values()) {
+    context.rendererFrames.delete(wc);
+  }
+
+  for (const key of Object.keys(objectMap)) {
+    const objectId = Number(key);
+    const metadata = (objectMap[objectId] as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+    if (metadata && 'subscribers' in metadata && metadata.scope === wc) {
+      delete singletonMap[metadata.singletonKey];
+      releaseInstance(objectId);
+    }
+  }
+}
+
+/**
+ * Releases a renderer frame if it has been detached or destroyed without loading a new
+ * document (e.g., a removed iframe), which Electron does not report with an event.
+ * Checked whenever a message is about to be sent to the frame, and for every frame of
+ * a WebContents when it sends a request (see `releaseDetachedFrames`).
+ *
+ * @returns True if the frame is gone
+ */
+function releaseFrameIfGone(frame: RendererFrame): boolean {
+  if (frame.frame === null || (!frame.frame.isDestroyed() && !frame.frame.detached)) {
+    return false;
+  }
+  if (frame.context.rendererFrames.get(frame.webContents)?.get(frame.frame) === frame) {
+    releaseObjectsForFrame(frame);
+  }
+  return true;
+}
+
+/**
+ * Releases the frames of a WebContents talking to a proxy instance that have been
+ * detached or destroyed (see `releaseFrameIfGone`).
+ */
+function releaseDetachedFrames(context: ProxyContext, wc: WebContents): void {
+  for (const frame of [...(context.rendererFrames.get(wc)?.values() ?? [])]) {
+    releaseFrameIfGone(frame);
+  }
+}
+
+/**
+ * Releases references to frames that have been detached or destroyed without loading
+ * a new document (e.g., a removed iframe), which Electron does not report with an event.
+ * Such frames are normally released as soon as they are noticed (see `releaseFrameIfGone`);
+ * this periodic sweep is a backstop for frames that are never noticed.
+ * Objects handed to a frame after it was released (e.g., results of calls still in
+ * flight at that time) are released as well.
+ */
+function sweepDetachedFrames(): void {
+  for (const context of contexts.values()) {
+    for (const frames of [...context.rendererFrames.values()]) {
+      for (const frame of [...frames.values()]) {
+        if (!isFrameAlive(frame)) {
+          releaseObjectsForFrame(frame);
+        }
+      }
+    }
+  }
+
+  for (const key of Object.keys(objectMap)) {
+    const objectId = Number(key);
+    const metadata = (objectMap[objectId] as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+    if (!metadata) {
+      continue;
+    }
+    if ('subscribers' in metadata) {
+      for (const subscriber of metadata.subscribers) {
+        if (!isFrameAlive(subscriber)) {
+          metadata.subscribers.delete(subscriber);
+        }
+      }
+    } else {
+      for (const holder of metadata.holders) {
+        if (!isFrameAlive(holder)) {
+          removeHolder(metadata, holder);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Calls the dispose hook of an instance: the method named by `[EXTENSION_METADATA].dispose`,
+ * or otherwise `[Symbol.dispose]` or `[Symbol.asyncDispose]`.
+ * Only instances created by the proxy layer are disposed (see `createdInstances`).
+ * Errors are reported as warnings.
+ *
+ * @returns A promise settling when an async disposer completes, or undefined
+ */
+function disposeInstance(instance: object): Promise<void> | undefined {
+  if (!createdInstances.has(instance)) {
+    return undefined;
+  }
+
+  const method = getExtensionMetadata(instance)?.dispose;
+  const disposer = method !== undefined
+    ? (instance as any)[method]
+    : (instance as any)[Symbol.dispose] ?? (instance as any)[Symbol.asyncDispose];
+  if (typeof disposer !== 'function') {
+    return undefined;
+  }
+
+  const warn = (error: unknown) => {
+    console.warn('Failed to dispose object:', error);
+  };
+
+  try {
+    const result = disposer.call(instance);
+    if (result && typeof result.then === 'function') {
+      return Promise.resolve(result).then(() => {}, warn);
+    }
+  } catch (error) {
+    warn(error);
+  }
+  return undefined;
+}
+
+/**
+ * Removes an object from objectMap and disposes it if the proxy layer created it.
+ * Async disposers are not awaited.
+ */
+function releaseInstance(objectId: number): void {
+  const instance = objectMap[objectId];
+  if (!instance) {
+    return;
+  }
+  delete objectMap[objectId];
+  disposeInstance(instance);
+}
+
+/**
+ * Disposes all remaining objects: owned objects first, then singletons, each in
+ * reverse order of creation. The objects of each proxy instance are disposed
+ * concurrently with those of other instances, within its own `disposeTimeout`.
+ */
+async function disposeAllObjects(): Promise<void> {
+  const objectIds = Object.keys(objectMap).map(Number).sort((a, b) => b - a);
+  const isSingleton = (objectId: number) => 'subscribers' in (objectMap[objectId] as any)[OBJECT_METADATA_SYMBOL];
+  const ordered = [
+    ...objectIds.filter((objectId) => !isSingleton(objectId)),
+    ...objectIds.filter(isSingleton),
+  ];
+
+  for (const key of Object.keys(singletonMap)) {
+    delete singletonMap[key];
+  }
+
+  const instancesByContext = new Map<ProxyContext, object[]>();
+  for (const objectId of ordered) {
+    const instance = objectMap[objectId];
+    delete objectMap[objectId];
+    const context = createdInstances.get(instance);
+    if (!context) {
+      continue;
+    }
+    let instances = instancesByContext.get(context);
+    if (!instances) {
+      instances = [];
+      instancesByContext.set(context, instances);
+    }
+    instances.push(instance);
+  }
+
+  await Promise.all([...instancesByContext].map(([context, instances]) => disposeInstances(context, instances)));
+}
+
+/**
+ * Disposes instances created through a proxy instance one by one, awaiting async disposers,
+ * until all are disposed or the `disposeTimeout` of the proxy instance elapses.
+ */
+async function disposeInstances(context: ProxyContext, instances: object[]): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      console.warn(`Disposing objects did not complete within ${context.disposeTimeout}ms`);
+      resolve();
+    }, context.disposeTimeout);
+  });
+
+  const disposeAll = async () => {
+    for (const instance of instances) {
+      await disposeInstance(instance);
+    }
+  };
+
+  await Promise.race([disposeAll(), timeout]);
+  clearTimeout(timer);
 }
 
 /**
- * Instantiates a registered class and stores it in objectMap with a fresh objectId.
- * The caller is responsible for attaching the appropriate ObjectMetadataMain variant
- * and calling overrideDispatchEvent when the instance is an EventTarget.
+ * Discards the events held back by delivery policies, and defers quitting until the
+ * remaining objects are disposed or the `disposeTimeout` of their proxy instance elapses.
  */
-function instantiateRegisteredClass(
-  className: string,
-  args: unknown[]
-): { objectId: number; instance: object; isEventTarget: boolean; extensions?: ExtensionMetadata } {
-  const ClassConstructor = (registeredClassMap as Record<string, new (...args: any[]) => any>)[className];
-  if (!ClassConstructor) {
-    throw new Error(`Class '${className}' is not registered in classMap`);
+function handleWillQuit(event: Electron.Event): void {
+  for (const frame of [...heldEvents.keys()]) {
+    discardHeldEvents(frame);
   }
 
-  const instance = new ClassConstructor(...args);
-  const objectId = nextObjectId++;
-  objectMap[objectId] = instance;
+  if (quitDisposalState === 'done' || (quitDisposalState === 'idle' && Object.keys(objectMap).length === 0)) {
+    return;
+  }
 
-  const isEventTarget = instance instanceof EventTarget;
-  const extensions = (ClassConstructor as any)[EXTENSION_METADATA] as ExtensionMetadata | undefined;
+  event.preventDefault();
+  if (quitDisposalState === 'disposing') {
+    return;
+  }
+  quitDisposalState = 'disposing';
 
-  return { objectId, instance, isEventTarget, extensions };
+  disposeAllObjects().finally(() => {
+    quitDisposalState = 'done';
+    app.quit();
+  });
 }
 
 /**
- * Creates a new owned (non-singleton) object instance and manages it.
- * The requesting WebContents becomes the lifecycle owner.
+ * Registers listeners on a WebContents to auto-release its objects when it is destroyed
+ * or its renderer process is gone. Objects of a page replaced by navigation or reload are
+ * released when the new document reports itself (`documentCreated`), which is guaranteed
+ * to reach the main process before any request from the new document.
  */
-function handleObjectCreation(
-  sender: WebContents,
-  className: string,
-  args: unknown[]
-): { objectId: number; isEventTarget: boolean; extensions?: ExtensionMetadata } {
-  const { objectId, instance, isEventTarget, extensions } = instantiateRegisteredClass(className, args);
-
-  const metadata: OwnedObjectMetadataMain = { objectId, owner: sender };
-  (instance as any)[OBJECT_METADATA_SYMBOL] = metadata;
+function watchWebContents(wc: WebContents): void {
+  wc.once('destroyed', () => {
+    releaseObjectsForWebContents(wc);
+  });
+  wc.on('render-process-gone', () => {
+    releaseObjectsForWebContents(wc, false);
+  });
+}
 
-  if (isEventTarget) {
-    overrideDispatchEvent(instance as EventTarget);
+/**
+ * Overrides the dispatchEvent method of an EventTarget to forward events to renderer
+ * frames.
+ *
+ * - For owned (non-singleton) objects, the holders are the recipients.
+ * - For singletons, every subscriber receives the event (broadcast). The subscribers
+ *   set may be empty (singleton created via main proxy with no renderer attached yet);
+ *   the loop simply no-ops in that case and may receive subscribers later.
+ * - Only recipients that have reported a listener for the event type receive it
+ *   (see `handleListenEvents`).
+ *
+ * Metadata is looked up on every dispatch, because a released object may be exposed
+ * again later under a new objectId. Released objects no longer forward events, and
+ * overriding an already overridden EventTarget is a no-op.
+ */
+function overrideDispatchEvent(eventTarget: EventTarget): void {
+  if (overriddenEventTargets.has(eventTarget)) {
+    return;
   }
+  overriddenEventTargets.add(eventTarget);
+
+  const originalDispatchEvent = eventTarget.dispatchEvent.bind(eventTarget);
+
+  eventTarget.dispatchEvent = function (event: Event): boolean {
+    const result = originalDispatchEvent(event);
+
+    const metadata = (eventTarget as any)[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+    if (!metadata || objectMap[metadata.objectId] !== eventTarget) {
+      return result;
+    }
+
+    const message: EventMessage = {
+      type: 'event',
+      objectId: metadata.objectId,
+      eventType: event.type,
+      detail: encodeCodecValues((event as any).detail),
+      properties: encodeCodecValues(getEventProperties(event)) as Record<string, unknown> | undefined,
+    };
+    sendToRecipients(metadata, message, 'Failed to forward event to renderer:');
 
-  return { objectId, isEventTarget, extensions };
+    return result;
+  };
 }
 
 /**
- * Gets or creates a singleton object instance.
- * If a singleton for the given class already exists, the calling sender is added to
- * its subscribers and the existing object id is returned.
- * Otherwise, a new instance is created with singleton metadata and registered.
+ * Overrides the emit method of an EventEmitter to forward events, with all their
+ * arguments, to renderer frames. Recipients are chosen as for EventTargets
+ * (see `overrideDispatchEvent`). Events named by symbols are not forwarded.
  */
-function handleGetSingleton(
-  sender: WebContents,
-  className: string,
-  args: unknown[]
-): { objectId: number; isEventTarget: boolean; extensions?: ExtensionMetadata } {
-  const existingObjectId = singletonMap[className];
-  if (existingObjectId !== undefined) {
-    const instance = objectMap[existingObjectId];
-    if (instance) {
-      const metadata = (instance as any)[OBJECT_METADATA_SYMBOL] as SingletonObjectMetadataMain;
-      // Subscribe this sender to broadcasts (no-op if already subscribed).
-      metadata.subscribers.add(sender);
+function overrideEmit(emitter: EventEmitter): void {
+  if (overriddenEventEmitters.has(emitter)) {
+    return;
+  }
+  overriddenEventEmitters.add(emitter);
 
-      const isEventTarget = instance instanceof EventTarget;
-      const ClassConstructor = (registeredClassMap as Record<string, any>)[className];
-      const extensions = (ClassConstructor as any)?.[EXTENSION_METADATA] as ExtensionMetadata | undefined;
+  const originalEmit = emitter.emit.bind(emitter);
 
-      return { objectId: existingObjectId, isEventTarget, extensions };
+  emitter.emit = function (eventName: string | symbol, ...args: unknown[]): boolean {
+    const result = originalEmit(eventName, ...args);
+
+    const metadata = (emitter as any)[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+    if (typeof eventName !== 'string' || !metadata || objectMap[metadata.objectId] !== emitter) {
+      return result;
     }
-  }
 
-  // Singleton doesn't exist: create a fresh instance with singleton metadata.
-  const { objectId, instance, isEventTarget, extensions } = instantiateRegisteredClass(className, args);
+    const message: EmitMessage = {
+      type: 'emit',
+      objectId: metadata.objectId,
+      eventName,
+      args: encodeCodecValues(args) as unknown[],
+    };
+    sendToRecipients(metadata, message, 'Failed to forward event to renderer:');
 
-  const metadata: SingletonObjectMetadataMain = { objectId, subscribers: new Set([sender]) };
-  (instance as any)[OBJECT_METADATA_SYMBOL] = metadata;
+    return result;
+  };
+}
 
+/**
+ * Overrides the method through which an instance dispatches its events, so that they are
+ * forwarded to renderer frames: dispatchEvent of an EventTarget, or emit of an EventEmitter.
+ */
+function forwardEvents(instance: object, isEventTarget: boolean): void {
   if (isEventTarget) {
     overrideDispatchEvent(instance as EventTarget);
+  } else if (instance instanceof EventEmitter) {
+    overrideEmit(instance);
   }
+}
 
-  singletonMap[className] = objectId;
+/**
+ * Sends a message to the renderer frames receiving events of an object:
+ * the holders of an owned object, or every subscriber of a singleton.
+ * Recipients that have been detached are released instead.
+ * Events are sent only to the frames listening to their type (see `isListeningTo`), and
+ * according to the delivery policy declared for the type in `ExtensionMetadata.events`.
+ */
+function sendToRecipients(metadata: ObjectMetadataMain, message: EventMessage | EmitMessage | StateMessage, warning: string): void {
+  const recipients: Iterable<RendererFrame> = 'subscribers' in metadata
+    ? metadata.subscribers
+    : metadata.holders;
 
-  return { objectId, isEventTarget, extensions };
+  const eventType = message.type === 'event' ? message.eventType : message.type === 'emit' ? message.eventName : undefined;
+  const policy = eventType !== undefined ? getEventDeliveryPolicy(objectMap[metadata.objectId], eventType) : undefined;
+
+  for (const frame of [...recipients]) {
+    if (releaseFrameIfGone(frame)) {
+      continue;
+    }
+    if (eventType !== undefined && !isListeningTo(frame, metadata.objectId, eventType)) {
+      continue;
+    }
+    try {
+      if (policy && eventType !== undefined && message.type !== 'state') {
+        deliverEvent(frame, message, eventType, policy);
+      } else {
+        sendToFrame(frame, message);
+      }
+    } catch (error) {
+      console.warn(warning, error);
+    }
+  }
 }
 
 /**
- * Returns true if the instance's class opts into caller-context injection
- * via `[EXTENSION_METADATA].needsCaller`.
+ * Returns the delivery policy declared for an event type in the extension metadata of
+ * the instance's class, if any.
  */
-function needsCallerContext(instance: object): boolean {
-  const ctor = (instance as { constructor?: unknown }).constructor as
-    | { [EXTENSION_METADATA]?: ExtensionMetadata }
-    | undefined;
-  return ctor?.[EXTENSION_METADATA]?.needsCaller === true;
+function getEventDeliveryPolicy(instance: object, eventType: string): EventDeliveryPolicy | undefined {
+  const events = getExtensionMetadata(instance)?.events;
+  return events && Object.prototype.hasOwnProperty.call(events, eventType) ? events[eventType] : undefined;
 }
 
 /**
- * Handles method calls on managed objects.
+ * Sends an event to a renderer frame according to the delivery policy of its type.
+ * An event arriving while no delivery window is open opens one for `policy.interval`;
+ * events arriving while it is open are dropped, coalesced or collected, and sent when
+ * it closes (see `EventDeliveryPolicy`).
  */
-async function handleMethodCall(
-  sender: WebContents,
-  objectId: number,
-  method: string,
-  args: unknown[]
-): Promise<unknown> {
-  const instance = objectMap[objectId];
-  if (!instance) {
-    throw new Error(`Object with ID ${objectId} not found`);
-  }
+function deliverEvent(frame: RendererFrame, message: EventMessage | EmitMessage, eventType: string, policy: EventDeliveryPolicy): void {
+  const key = JSON.stringify([message.objectId, eventType]);
+  const held = heldEvents.get(frame)?.get(key);
 
-  const methodFn = (instance as any)[method];
-  if (typeof methodFn !== 'function') {
-    throw new Error(`Method '${method}' not found on object with ID ${objectId}`);
+  if (!held) {
+    if (policy.mode !== 'batch') {
+      sendToFrame(frame, message);
+    }
+    openDeliveryWindow(frame, key, policy, policy.mode === 'batch' ? [message] : []);
+  } else if (held.policy.mode === 'latest') {
+    held.messages = [message];
+  } else if (held.policy.mode === 'batch') {
+    held.messages.push(message);
   }
 
-  if (needsCallerContext(instance)) {
-    return callerStore.run(sender, () => methodFn.apply(instance, args));
+  const current = heldEvents.get(frame)?.get(key);
+  if (current?.policy.mode === 'batch' && current.messages.length >= (current.policy.maxSize ?? Infinity)) {
+    closeDeliveryWindow(frame, key);
   }
+}
 
-  return methodFn.apply(instance, args);
+/**
+ * Opens a delivery window, closed by a timer after `policy.interval`. The timer does not
+ * keep the process alive.
+ */
+function openDeliveryWindow(frame: RendererFrame, key: string, policy: EventDeliveryPolicy, messages: (EventMessage | EmitMessage)[]): void {
+  let windows = heldEvents.get(frame);
+  if (!windows) {
+    windows = new Map();
+    heldEvents.set(frame, windows);
+  }
+  const timer = setTimeout(() => closeDeliveryWindow(frame, key), policy.interval);
+  timer.unref();
+  windows.set(key, { policy, timer, messages });
 }
 
 /**
- * Handles method calls with MessagePort transfer (fire-and-forget).
- * Ports are passed as the last argument to the method as MessagePortMain[].
+ * Closes a delivery window and sends the events held in it, as one event for `'batch'`.
+ * Held events are dropped if the frame is gone or no longer receives them.
+ * For `'latest'`, sending an event opens the next window, so that deliveries stay
+ * `policy.interval` apart.
  */
-function handleMethodCallWithPort(
-  sender: WebContents,
-  objectId: number,
-  method: string,
-  args: unknown[],
-  ports: Electron.MessagePortMain[]
-): void {
-  const instance = objectMap[objectId];
-  if (!instance) {
-    console.warn(`Object with ID ${objectId} not found for callWithPort`);
+function closeDeliveryWindow(frame: RendererFrame, key: string): void {
+  const windows = heldEvents.get(frame);
+  const held = windows?.get(key);
+  if (!windows || !held) {
     return;
   }
+  clearTimeout(held.timer);
+  windows.delete(key);
+  if (windows.size === 0) {
+    heldEvents.delete(frame);
+  }
 
-  const methodFn = (instance as any)[method];
-  if (typeof methodFn !== 'function') {
-    console.warn(`Method '${method}' not found on object with ID ${objectId}`);
+  const [first] = held.messages;
+  if (!first || !isFrameAlive(frame) || !isEventRecipient(frame, first.objectId, first.type === 'event' ? first.eventType : first.eventName)) {
     return;
   }
 
-  if (needsCallerContext(instance)) {
-    callerStore.run(sender, () => methodFn.apply(instance, [...args, ports]));
+  try {
+    sendToFrame(frame, held.policy.mode === 'batch' ? toBatchMessage(held.messages) : first);
+  } catch (error) {
+    console.warn('Failed to forward event to renderer:', error);
     return;
   }
+  if (held.policy.mode === 'latest') {
+    openDeliveryWindow(frame, key, held.policy, []);
+  }
+}
 
-  // Call the method with args + ports as last argument
-  methodFn.apply(instance, [...args, ports]);
+/**
+ * Combines batched events of one type into a single event: the array of their details,
+ * or for an EventEmitter, a single argument holding the array of their argument lists.
+ * Event properties other than `detail` are not sent.
+ */
+function toBatchMessage(messages: (EventMessage | EmitMessage)[]): EventMessage | EmitMessage {
+  const [first] = messages;
+  if (first.type === 'event') {
+    return {
+      type: 'event',
+      objectId: first.objectId,
+      eventType: first.eventType,
+      detail: messages.map((message) => (message as EventMessage).detail),
+    };
+  }
+  return {
+    type: 'emit',
+    objectId: first.objectId,
+    eventName: first.eventName,
+    args: [messages.map((message) => (message as EmitMessage).args)],
+  };
 }
 
 /**
- * Handles object release requests.
+ * Returns true if a frame still receives the events of a type from an object: the object
+ * is managed, and the frame holds or subscribes to it and listens to the type.
  */
-function handleObjectRelease(objectIds: number[]): void {
-  for (const objectId of objectIds) {
-    delete objectMap[objectId];
+function isEventRecipient(frame: RendererFrame, objectId: number, eventType: string): boolean {
+  const metadata = (objectMap[objectId] as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+  if (!metadata || !('subscribers' in metadata ? metadata.subscribers : metadata.holders).has(frame)) {
+    return false;
   }
+  return isListeningTo(frame, objectId, eventType);
 }
 
 /**
- * Cleans up references to a destroyed WebContents.
- * - Owned (non-singleton) objects whose owner matches `wc` are released.
- * - Singleton objects keep living, but `wc` is removed from their subscribers set
- *   so future dispatches do not target the dead WebContents.
- * Invoked when a WebContents is destroyed (e.g., window closed).
+ * Returns true if a frame listens to an event type on an object. Until the frame has
+ * reported its listeners on the object, it is considered to listen to every type, so that
+ * events dispatched before the first report, such as right after the object was created,
+ * are not lost.
  */
-function releaseObjectsForWebContents(wc: WebContents): void {
-  for (const key of Object.keys(objectMap)) {
-    const objectId = Number(key);
-    const instance = objectMap[objectId];
-    const metadata = (instance as any)?.[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
-    if (!metadata) {
-      continue;
-    }
-    if ('subscribers' in metadata) {
-      metadata.subscribers.delete(wc);
-    } else if (metadata.owner === wc) {
-      delete objectMap[objectId];
-    }
+function isListeningTo(frame: RendererFrame, objectId: number, eventType: string): boolean {
+  return frame.eventTypes.get(objectId)?.has(eventType) ?? true;
+}
+
+/**
+ * Discards the events held back for a renderer frame and closes its delivery windows.
+ */
+function discardHeldEvents(frame: RendererFrame): void {
+  const windows = heldEvents.get(frame);
+  if (!windows) {
+    return;
+  }
+  heldEvents.delete(frame);
+  for (const held of windows.values()) {
+    clearTimeout(held.timer);
   }
 }
 
 /**
- * Registers a destroyed listener on a WebContents to auto-release its objects.
+ * Queues a change of an observed state. Changes made in the same task are sent
+ * together in a single `state` message.
  */
-function watchWebContents(wc: WebContents): void {
-  wc.once('destroyed', () => {
-    releaseObjectsForWebContents(wc);
-  });
+function queueStatePatch(instance: object, patch: StatePatch): void {
+  let patches = pendingStatePatches.get(instance);
+  if (!patches) {
+    patches = [];
+    pendingStatePatches.set(instance, patches);
+    queueMicrotask(() => flushStatePatches(instance));
+  }
+  patches.push(patch);
 }
 
 /**
- * Overrides the dispatchEvent method of an EventTarget to forward events to renderer
- * WebContents.
- *
- * - For owned (non-singleton) objects, the single owner is the recipient.
- * - For singletons, every subscriber receives the event (broadcast). The subscribers
- *   set may be empty (singleton created via main proxy with no renderer attached yet);
- *   the loop simply no-ops in that case and may receive subscribers later.
+ * Sends the queued state changes of an instance to its recipients.
+ * Changes of instances that are no longer managed are dropped.
  */
-function overrideDispatchEvent(eventTarget: EventTarget): void {
-  const metadata = (eventTarget as any)[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain;
+function flushStatePatches(instance: object): void {
+  const patches = pendingStatePatches.get(instance);
+  pendingStatePatches.delete(instance);
 
-  const originalDispatchEvent = eventTarget.dispatchEvent.bind(eventTarget);
+  const metadata = (instance as any)[OBJECT_METADATA_SYMBOL] as ObjectMetadataMain | undefined;
+  if (!patches || !metadata || objectMap[metadata.objectId] !== instance) {
+    return;
+  }
 
-  eventTarget.dispatchEvent = function (event: Event): boolean {
-    const result = originalDispatchEvent(event);
+  sendToRecipients(metadata, { type: 'state', objectId: metadata.objectId, patches }, 'Failed to send state changes to renderer:');
+}
 
-    const recipients: Iterable<WebContents> = 'subscribers' in metadata
-      ? metadata.subscribers
-      : [metadata.owner];
+/**
+ * Options for getRendererObject.
+ */
+export interface RendererObjectOptions {
+  /** Frame exposing the object. Defaults to the main frame of the WebContents */
+  frame?: WebFrameMain;
+}
 
-    for (const wc of recipients) {
-      try {
-        if (!wc.isDestroyed()) {
-          wc.send(IPC_CHANNEL, {
-            type: 'event',
-            objectId: metadata.objectId,
-            eventType: event.type,
-            detail: (event as any).detail,
-          });
-        }
-      } catch (error) {
-        console.warn('Failed to forward event to renderer:', error);
-      }
-    }
+/**
+ * Returns a proxy to an object exposed by a renderer with `exposeObject`.
+ *
+ * Every method of the proxy is asynchronous: calls are sent to the page currently loaded in
+ * the frame, and resolve with the result of the renderer method or reject with its error.
+ * Arguments and results are encoded like callback arguments, so proxiable objects are
+ * passed as remote objects. Calls fail when the frame is gone, and calls pending when the
+ * page navigates or reloads are rejected.
+ *
+ * @example
+ * const editor = getRendererObject<Editor>(win.webContents, 'Editor');
+ * const buffers = await editor.getUnsavedBuffers();
+ *
+ * @param wc - WebContents hosting the object
+ * @param name - Name the object is exposed under
+ * @param options - Options selecting the frame
+ * @returns The proxy object
+ */
+export function getRendererObject<T extends object = any>(wc: WebContents, name: string, options?: RendererObjectOptions): T {
+  return createRendererObject(getDefaultContext, wc, name, options);
+}
 
-    return result;
-  };
+/**
+ * Creates a proxy for an object exposed by a renderer frame talking to the proxy instance
+ * returned by `resolveContext`.
+ */
+function createRendererObject<T extends object>(
+  resolveContext: () => ProxyContext,
+  wc: WebContents,
+  name: string,
+  options?: RendererObjectOptions
+): T {
+  return new Proxy({} as T, {
+    get(_target, prop: string | symbol) {
+      // Not thenable, so that the proxy can be returned from async functions
+      if (typeof prop !== 'string' || prop === 'then') {
+        return undefined;
+      }
+      return (...args: unknown[]) => {
+        if (wc.isDestroyed()) {
+          return Promise.reject(new Error(`WebContents exposing '${name}' has been destroyed`));
+        }
+        const owner = lookupRendererFrame(resolveContext(), wc, options?.frame ?? wc.mainFrame);
+        if (!isFrameAlive(owner)) {
+          return Promise.reject(new Error(`Frame exposing '${name}' is gone`));
+        }
+        return sendRendererCall(owner, (callId) => ({
+          type: 'callExposed',
+          callId,
+          name,
+          method: prop,
+          args: encodeValue(owner, args) as unknown[],
+        }));
+      };
+    },
+  });
 }
 
 /**
@@ -401,10 +2615,49 @@ function overrideDispatchEvent(eventTarget: EventTarget): void {
  */
 export type SingletonObject = { readonly [K in keyof ClassMap]: InstanceType<ClassMap[K]> };
 
+/**
+ * Options selecting singletons accessed through `singletonScope`.
+ */
+export interface SingletonScopeOptions {
+  /** Application-defined key distinguishing singletons of the same class */
+  key?: string;
+  /**
+   * WebContents or session the singletons are scoped to, matching renderer requests
+   * with `scope: 'webContents'` or `scope: 'session'`. App-wide when omitted.
+   */
+  scope?: WebContents | Session;
+  /** Constructor arguments used when a singleton does not exist yet */
+  args?: unknown[];
+}
+
+/**
+ * Creates a singleton object proxy for the given key and scope, in the proxy instance
+ * returned by `resolveContext`.
+ * Each property access returns the singleton instance for that class, creating it
+ * if it does not exist yet.
+ */
+function createSingletonObject(resolveContext: () => ProxyContext, options: SingletonScopeOptions): SingletonObject {
+  return new Proxy({} as SingletonObject, {
+    get(_target, prop: string | symbol) {
+      if (typeof prop === 'string') {
+        const context = resolveContext();
+        if (isHostedClassName(context, prop)) {
+          throw new Error(`Class '${prop}' is hosted in another process and cannot be accessed from the main process`);
+        }
+        // getOrCreateSingleton throws if prop is not a registered class name.
+        // Without a subscriber, the singleton starts with no subscribers, and
+        // renderers will be appended as they call getSingleton.
+        return getOrCreateSingleton(context, prop, options.args ?? [], options.key, options.scope).instance;
+      }
+      return undefined;
+    }
+  });
+}
+
 /**
  * Singleton object proxy for convenient singleton access in main process.
  * Properties correspond to class names in ClassMap.
- * Each property access returns the singleton instance for that class.
+ * Each property access returns the app-wide, unkeyed singleton instance for that class.
  *
  * @example
  * // Get singleton instance
@@ -413,41 +2666,37 @@ export type SingletonObject = { readonly [K in keyof ClassMap]: InstanceType<Cla
  * // Type-safe access
  * const config = singleton.Config;
  */
-export const singleton: SingletonObject = new Proxy({} as SingletonObject, {
-  get(_target, prop: string | symbol) {
-    if (typeof prop === 'string') {
-      const classNameStr = prop;
-
-      // Check if singleton already exists
-      const existingObjectId = singletonMap[classNameStr];
-      if (existingObjectId !== undefined) {
-        const instance = objectMap[existingObjectId];
-        if (instance) {
-          return instance;
-        }
-      }
-
-      // Create new singleton with empty args.
-      // instantiateRegisteredClass throws if classNameStr is not registered.
-      const { objectId, instance, isEventTarget } = instantiateRegisteredClass(classNameStr, []);
-
-      // Initialize metadata with an empty subscribers Set: no renderer has subscribed yet,
-      // and renderers will be appended as they call getSingleton.
-      const metadata: SingletonObjectMetadataMain = { objectId, subscribers: new Set() };
-      (instance as any)[OBJECT_METADATA_SYMBOL] = metadata;
-
-      singletonMap[classNameStr] = objectId;
+export const singleton: SingletonObject = createSingletonObject(getDefaultContext, {});
 
-      // Override dispatchEvent up front so future subscribers receive events.
-      if (isEventTarget) {
-        overrideDispatchEvent(instance as EventTarget);
-      }
+/**
+ * Returns a singleton object proxy for keyed or scoped singletons.
+ * Properties correspond to class names in ClassMap, and return the same instances
+ * as renderer `getSingleton` calls with the same key and scope.
+ *
+ * @example
+ * // Keyed singleton shared by all renderers
+ * const index = singletonScope({ key: projectPath, args: [projectPath] }).ProjectIndex;
+ *
+ * // Per-WebContents singleton
+ * const state = singletonScope({ scope: win.webContents }).WindowState;
+ *
+ * @param options - Key, scope and constructor arguments of the singletons
+ * @returns The singleton object proxy
+ */
+export function singletonScope(options: SingletonScopeOptions): SingletonObject {
+  return createSingletonObject(getDefaultContext, options);
+}
 
-      return instance;
-    }
-    return undefined;
+/**
+ * Returns the proxy instance initialized on the default channel.
+ */
+function getDefaultContext(): ProxyContext {
+  const context = contexts.get(IPC_CHANNEL);
+  if (!context) {
+    throw new Error('initObjProxy has not been called for the default channel');
   }
-});
+  return context;
+}
 
 /**
  * Internal testing helpers. Not part of the public API.
@@ -463,11 +2712,15 @@ export const __testing__ = {
     return Object.values(singletonMap);
   },
   /**
-   * Returns the number of WebContents subscribed to a singleton's events,
+   * Returns the number of renderer frames subscribed to a singleton's events,
    * or 0 if the singleton does not exist.
    */
   getSingletonSubscriberCount(className: string): number {
-    const objectId = singletonMap[className];
+    const context = contexts.get(IPC_CHANNEL);
+    if (!context) {
+      return 0;
+    }
+    const objectId = singletonMap[getSingletonKey(context, className)];
     if (objectId === undefined) {
       return 0;
     }
@@ -484,43 +2737,112 @@ export const __testing__ = {
 };
 
 /**
- * Initializes the electron-objproxy system in the main process.
- *
- * @param options - Configuration options including the class map
+ * A proxy instance created by `initObjProxy`, with its own channel, class map and
+ * renderer frames. The module-level `singleton`, `singletonScope` and `getRendererObject`
+ * work on the instance of the default channel.
  */
-export async function initObjProxy(options: InitObjProxyOptions): Promise<void> {
-  registeredClassMap = options.classMap;
+export interface ObjProxyInstance {
+  /** IPC channel of the instance */
+  readonly channel: string;
+  /** Singleton object proxy of the instance (see `singleton`) */
+  readonly singleton: SingletonObject;
+  /** Returns a singleton object proxy for keyed or scoped singletons of the instance (see `singletonScope`) */
+  singletonScope(options: SingletonScopeOptions): SingletonObject;
+  /** Returns a proxy for an object exposed by a renderer frame talking to the instance (see `getRendererObject`) */
+  getRendererObject<T extends object = any>(wc: WebContents, name: string, options?: RendererObjectOptions): T;
+}
 
-  // Register IPC handlers
-  ipcMain.handle(IPC_CHANNEL, handleInvokeRequest);
-  ipcMain.on(IPC_CHANNEL, handleSendRequest);
-
-  // Register preload script for all sessions
-  const preloadPath = join(__dirname, '../preload/index.cjs');
-
-  // Handle future sessions
-  app.on('session-created', (session) => {
-    session.registerPreloadScript({
-      filePath: preloadPath,
-      type: 'frame',
-    });
+/**
+ * Registers the preload script exposing the default proxy API on a session.
+ */
+function registerPreloadScript(session: Session): void {
+  session.registerPreloadScript({
+    filePath: join(__dirname, '../preload/index.cjs'),
+    type: 'frame',
   });
+}
+
+/**
+ * Installs the application-wide listeners shared by all proxy instances.
+ */
+function installAppListeners(): void {
+  if (appListenersInstalled) {
+    return;
+  }
+  appListenersInstalled = true;
 
   // Auto-release objects when their owning WebContents is destroyed
   app.on('web-contents-created', (_event, wc) => {
     watchWebContents(wc);
   });
 
-  // Handle sessions for existing webContents
-  const allWebContents = webContents.getAllWebContents();
-  for (const wc of allWebContents) {
-    const wcSession = wc.session;
-    if (wcSession) {
-      wcSession.registerPreloadScript({
-        filePath: preloadPath,
-        type: 'frame',
-      });
-    }
+  // Dispose the remaining objects before quitting
+  app.on('will-quit', handleWillQuit);
+
+  // Release objects of removed iframes that were not noticed otherwise
+  setInterval(sweepDetachedFrames, 60 * 1000).unref();
+
+  for (const wc of webContents.getAllWebContents()) {
     watchWebContents(wc);
   }
 }
+
+/**
+ * Initializes an electron-objproxy instance in the main process.
+ *
+ * The instance on the default channel registers the preload script exposing the renderer API
+ * for all sessions, unless `registerPreload` is false. Instances on other channels require
+ * a preload calling `exposeObjProxy` from `electron-objproxy/preload/expose` with the same channel.
+ * Each instance only serves the classes of its own class map, and objects created or
+ * referenced through an instance can only be reached by the renderers of that instance.
+ *
+ * @param options - Configuration options including the class map
+ * @returns The proxy instance
+ */
+export async function initObjProxy(options: InitObjProxyOptions): Promise<ObjProxyInstance> {
+  const channel = options.channel ?? IPC_CHANNEL;
+  if (contexts.has(channel)) {
+    throw new Error(`initObjProxy has already been called for channel '${channel}'`);
+  }
+  const registerPreload = options.registerPreload ?? channel === IPC_CHANNEL;
+  if (registerPreload && channel !== IPC_CHANNEL) {
+    throw new Error('registerPreload is only supported on the default channel; call exposeObjProxy from your preload instead');
+  }
+
+  const context: ProxyContext = {
+    channel,
+    classMap: options.classMap,
+    strict: options.strict ?? false,
+    authorize: options.authorize,
+    rendererFrames: new Map(),
+    publications: new Map(),
+    disposeTimeout: options.disposeTimeout ?? 5000,
+  };
+  contexts.set(channel, context);
+
+  // Register IPC handlers
+  ipcMain.handle(channel, (event, payload) => handleInvokeRequest(context, event, payload));
+  ipcMain.on(channel, (event, message) => handleSendRequest(context, event, message));
+
+  installAppListeners();
+
+  if (registerPreload) {
+    // Handle future sessions
+    app.on('session-created', registerPreloadScript);
+
+    // Handle sessions for existing webContents
+    for (const wc of webContents.getAllWebContents()) {
+      if (wc.session) {
+        registerPreloadScript(wc.session);
+      }
+    }
+  }
+
+  const resolveContext = () => context;
+  return {
+    channel,
+    singleton: createSingletonObject(resolveContext, {}),
+    singletonScope: (scopeOptions) => createSingletonObject(resolveContext, scopeOptions),
+    getRendererObject: (wc, name, objectOptions) => createRendererObject(resolveContext, wc, name, objectOptions),
+  };
+}
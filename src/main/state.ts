@@ -0,0 +1,139 @@
+import type { StatePatch } from '../common/types.js';
+
+/**
+ * Raw state objects keyed by the tracking proxies wrapping them.
+ */
+const rawObjects = new WeakMap<object, object>();
+
+/**
+ * Current raw state of each observed instance.
+ */
+const observedStates = new WeakMap<object, { value: unknown }>();
+
+/**
+ * Returns true if the value is tracked for changes: an array or a plain object.
+ */
+function isTrackable(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return true;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Replaces tracking proxies with their raw objects, so that the value can be
+ * structured-cloned. Proxies nested in arrays and plain objects (e.g. elements
+ * spread from the state) are replaced in place.
+ */
+function toRaw(value: unknown, seen = new Set<object>()): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const raw = rawObjects.get(value);
+  if (raw) {
+    return raw;
+  }
+  if (!isTrackable(value) || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  for (const key of Object.keys(value)) {
+    const item = (value as any)[key];
+    const rawItem = toRaw(item, seen);
+    if (rawItem !== item) {
+      (value as any)[key] = rawItem;
+    }
+  }
+  return value;
+}
+
+/**
+ * Makes a state property of the instance observable.
+ *
+ * The property is replaced with an accessor returning a tracking proxy of the state.
+ * Every change made through it, including nested changes and assigning a new state,
+ * is reported to `onPatch`. Changes made to the raw state object directly are not
+ * detected. Calling this again for the same instance has no effect.
+ *
+ * @param instance - The instance holding the state
+ * @param property - Name of the state property
+ * @param onPatch - Called for each change
+ */
+export function observeState(instance: object, property: string, onPatch: (patch: StatePatch) => void): void {
+  if (observedStates.has(instance)) {
+    return;
+  }
+
+  const state = { value: toRaw((instance as any)[property]) };
+  observedStates.set(instance, state);
+
+  const proxies = new WeakMap<object, Map<string, object>>();
+
+  const track = (target: object, path: string[]): object => {
+    let proxiesByPath = proxies.get(target);
+    if (!proxiesByPath) {
+      proxiesByPath = new Map();
+      proxies.set(target, proxiesByPath);
+    }
+
+    const pathKey = JSON.stringify(path);
+    let proxy = proxiesByPath.get(pathKey);
+    if (!proxy) {
+      proxy = new Proxy(target, {
+        get(target, key) {
+          const value = Reflect.get(target, key);
+          return typeof key === 'string' && isTrackable(value) ? track(value, [...path, key]) : value;
+        },
+        set(target, key, value) {
+          if (typeof key !== 'string') {
+            return Reflect.set(target, key, value);
+          }
+          const rawValue = toRaw(value);
+          const changed = !Object.prototype.hasOwnProperty.call(target, key) || !Object.is(Reflect.get(target, key), rawValue);
+          if (!Reflect.set(target, key, rawValue)) {
+            return false;
+          }
+          if (changed) {
+            onPatch({ op: 'set', path: [...path, key], value: rawValue });
+          }
+          return true;
+        },
+        deleteProperty(target, key) {
+          if (typeof key !== 'string' || !Object.prototype.hasOwnProperty.call(target, key)) {
+            return Reflect.deleteProperty(target, key);
+          }
+          if (!Reflect.deleteProperty(target, key)) {
+            return false;
+          }
+          onPatch({ op: 'delete', path: [...path, key] });
+          return true;
+        },
+      });
+      rawObjects.set(proxy, target);
+      proxiesByPath.set(pathKey, proxy);
+    }
+    return proxy;
+  };
+
+  Object.defineProperty(instance, property, {
+    configurable: true,
+    enumerable: true,
+    get: () => (isTrackable(state.value) ? track(state.value, []) : state.value),
+    set: (value: unknown) => {
+      state.value = toRaw(value);
+      onPatch({ op: 'set', path: [], value: state.value });
+    },
+  });
+}
+
+/**
+ * Returns the raw state of an observed instance, or `undefined` if the instance is not observed.
+ */
+export function getObservedState(instance: object): unknown {
+  return observedStates.get(instance)?.value;
+}
@@ -0,0 +1,96 @@
+import { contextBridge, ipcRenderer } from 'electron';
+import type { ElectronObjProxyAPI, CreateObjectRequest, GetSingletonRequest, CallMethodRequest, BatchCallRequest, GetPropertyRequest, SetPropertyRequest, IteratorNextRequest, IteratorReturnRequest, ExportObjectRequest, ImportObjectRequest, PublishObjectRequest, GetPublishedObjectRequest, CallPublishedObjectRequest, CallRelayedFunctionRequest, ReleaseObjectsMessage, CallbackResultMessage, CancelCallMessage, UnpublishObjectMessage, ReleasePublishedObjectsMessage, ListenEventsMessage, DocumentCreatedMessage, MainProcessMessage, GetSingletonSyncRequest } from '../common/types.js';
+import { IPC_CHANNEL, DEFAULT_GLOBAL_NAME } from '../common/constants.js';
+
+/**
+ * Options for exposing the proxy API to the renderer.
+ */
+export interface ExposeObjProxyOptions {
+  /** IPC channel of the main-process instance, matching the `channel` option of `initObjProxy` */
+  channel?: string;
+  /** Name of the global exposing the API, matching the `globalName` option of `createObjProxyClient` */
+  globalName?: string;
+}
+
+/**
+ * Exposes the proxy API to the renderer process through contextBridge.
+ * Call this from a preload script, once per channel, when the bundled preload is not
+ * registered (see the `registerPreload` option of `initObjProxy`).
+ *
+ * @param options - Channel and global name of the API
+ */
+export function exposeObjProxy(options: ExposeObjProxyOptions = {}): void {
+  const channel = options.channel ?? IPC_CHANNEL;
+  const globalName = options.globalName ?? DEFAULT_GLOBAL_NAME;
+
+  /**
+   * Event listeners for main process event and callback notifications.
+   */
+  const eventListeners: ((message: MainProcessMessage) => void)[] = [];
+
+  /**
+   * Implementation of the ElectronObjProxyAPI interface.
+   * This object provides low-level IPC communication with the main process.
+   */
+  const electronObjProxyAPI: ElectronObjProxyAPI = {
+    /**
+     * Sends invoke request to main process.
+     */
+    async invoke(payload: CreateObjectRequest | GetSingletonRequest | CallMethodRequest | BatchCallRequest | GetPropertyRequest | SetPropertyRequest | IteratorNextRequest | IteratorReturnRequest | ExportObjectRequest | ImportObjectRequest | PublishObjectRequest | GetPublishedObjectRequest | CallPublishedObjectRequest | CallRelayedFunctionRequest) {
+      return ipcRenderer.invoke(channel, payload);
+    },
+
+    /**
+     * Sends notification to main process.
+     */
+    send(message: ReleaseObjectsMessage | CallbackResultMessage | CancelCallMessage | UnpublishObjectMessage | ReleasePublishedObjectsMessage | ListenEventsMessage) {
+      ipcRenderer.send(channel, message);
+    },
+
+    /**
+     * Sends synchronous request to main process.
+     */
+    sendSync(message: GetSingletonSyncRequest) {
+      return ipcRenderer.sendSync(channel, message);
+    },
+
+    /**
+     * Registers listener for event and callback notifications from main process.
+     */
+    onEvent(listener: (message: MainProcessMessage) => void) {
+      eventListeners.push(listener);
+    },
+
+    channel,
+  };
+
+  // Register event listener for main process events, dispatching event, emit, state, callback
+  // and exposed object call notifications to registered listeners
+  ipcRenderer.on(channel, (_event, message: any) => {
+    if (message.type === 'event' || message.type === 'emit' || message.type === 'state' || message.type === 'callback' || message.type === 'callExposed') {
+      for (const listener of eventListeners) {
+        listener(message as MainProcessMessage);
+      }
+    }
+  });
+
+  // Announce the new document, so that objects owned by the previous page are released
+  // before any request from this page
+  ipcRenderer.send(channel, { type: 'documentCreated' } satisfies DocumentCreatedMessage);
+
+  /**
+   * Handles MessagePort transfer from renderer via window.postMessage.
+   * Renderer sends { channel, message } with ports via window.postMessage,
+   * and preload forwards them to main process via ipcRenderer.postMessage.
+   */
+  window.addEventListener('message', (event) => {
+    if (event.data?.channel === channel && event.ports.length > 0) {
+      ipcRenderer.postMessage(channel, event.data.message, [...event.ports]);
+    }
+  });
+
+  // Expose the API to the renderer process through contextBridge
+  if (process.contextIsolated) {
+    contextBridge.exposeInMainWorld(globalName, electronObjProxyAPI);
+  }
+}
@@ -1,73 +1,8 @@
-import { contextBridge, ipcRenderer } from 'electron';
-import type { ElectronObjProxyAPI, CreateObjectRequest, GetSingletonRequest, CallMethodRequest, ReleaseObjectsMessage, EventMessage, GetSingletonSyncRequest, CallWithPortMessage } from '../common/types.js';
-import { IPC_CHANNEL } from '../common/constants.js';
+import { exposeObjProxy } from './expose.js';
 
 /**
- * Event listeners for main process event notifications.
+ * Preload script exposing the API of the default channel when it is loaded: registered
+ * by `initObjProxy` for all sessions, or set as the `preload` of a window.
+ * Use `electron-objproxy/preload/expose` to compose the API into your own preload.
  */
-const eventListeners: ((message: EventMessage) => void)[] = [];
-
-/**
- * Implementation of the ElectronObjProxyAPI interface.
- * This object provides low-level IPC communication with the main process.
- */
-const electronObjProxyAPI: ElectronObjProxyAPI = {
-  /**
-   * Sends invoke request to main process.
-   */
-  async invoke(payload: CreateObjectRequest | GetSingletonRequest | CallMethodRequest) {
-    return ipcRenderer.invoke(IPC_CHANNEL, payload);
-  },
-
-  /**
-   * Sends notification to main process.
-   */
-  send(message: ReleaseObjectsMessage) {
-    ipcRenderer.send(IPC_CHANNEL, message);
-  },
-
-  /**
-   * Sends synchronous request to main process.
-   */
-  sendSync(message: GetSingletonSyncRequest) {
-    return ipcRenderer.sendSync(IPC_CHANNEL, message);
-  },
-
-  /**
-   * Registers listener for event notifications from main process.
-   */
-  onEvent(listener: (message: EventMessage) => void) {
-    eventListeners.push(listener);
-  },
-};
-
-/**
- * Event listener for receiving events from the main process.
- * Handles event notifications and dispatches them to registered listeners.
- */
-function handleMainProcessEvent(_event: Electron.IpcRendererEvent, message: any): void {
-  if (message.type === 'event') {
-    for (const listener of eventListeners) {
-      listener(message as EventMessage);
-    }
-  }
-}
-
-// Register event listener for main process events
-ipcRenderer.on(IPC_CHANNEL, handleMainProcessEvent);
-
-/**
- * Handles MessagePort transfer from renderer via window.postMessage.
- * Renderer sends { channel, message } with ports via window.postMessage,
- * and preload forwards them to main process via ipcRenderer.postMessage.
- */
-window.addEventListener('message', (event) => {
-  if (event.data?.channel === IPC_CHANNEL && event.ports.length > 0) {
-    ipcRenderer.postMessage(IPC_CHANNEL, event.data.message, event.ports);
-  }
-});
-
-// Expose the API to the renderer process through contextBridge
-if (process.contextIsolated) {
-  contextBridge.exposeInMainWorld('__electronObjProxy', electronObjProxyAPI);
-}
+exposeObjProxy();
@@ -1,5 +1,10 @@
-import type { ClassMap } from '../common/types.js';
-import { createObject as createProxyObject, getSingleton as getProxySingleton, getSingletonSync as getProxySingletonSync } from './proxy-manager.js';
+import type { ClassMap, SingletonOptions } from '../common/types.js';
+import { createObject as createProxyObject, getSingleton as getProxySingleton, getSingletonSync as getProxySingletonSync, releaseObject as releaseProxyObject, withOptions as withProxyOptions, subscribeState as subscribeProxyState, exportObject as exportProxyObject, importObject as importProxyObject, exposeObject as exposeProxyObject, publishObject as publishProxyObject, getPublishedObject as getProxyPublishedObject, getProxyManager, type ProxyManager, type CallOptions, type StateListener, type ExportOptions, type PublishOptions } from './proxy-manager.js';
+
+export { ObjProxyError, PermissionDeniedError, ArgumentValidationError, CallTimeoutError, DisconnectedError, registerErrorClass } from '../common/errors.js';
+export { registerCodec } from '../common/codecs.js';
+export type { CallOptions, StateListener, ExportOptions, PublishOptions } from './proxy-manager.js';
+export type { StatePatch, SingletonOptions, SingletonScope, ValueCodec } from '../common/types.js';
 
 /**
  * Creates a remote object instance in the main process.
@@ -15,7 +20,7 @@ export async function createObject<
   T extends keyof ClassMap,
   A extends ConstructorParameters<ClassMap[T]>
 >(className: T, init?: A): Promise<InstanceType<ClassMap[T]>> {
-  return createProxyObject(className, init);
+  return createProxyObject(getProxyManager(), className, init);
 }
 
 /**
@@ -23,17 +28,25 @@ export async function createObject<
  *
  * This function serves as the entry point for the Renderer Process API,
  * internally calling the proxy-manager's getSingleton function.
- * Always returns the same instance for a given class name.
+ * Always returns the same instance for a given class name, key and scope.
+ *
+ * @example
+ * // One instance per project path
+ * const index = await getSingleton('ProjectIndex', { key: projectPath, args: [projectPath] });
+ *
+ * // One instance per window
+ * const state = await getSingleton('WindowState', { scope: 'webContents' });
  *
  * @param className - The name of the class to instantiate, must be registered in ClassMap
- * @param init - Constructor parameters for the class (optional, used only on first creation)
+ * @param init - Constructor parameters for the class (optional, used only on first creation),
+ *   or singleton options selecting a keyed or scoped singleton
  * @returns Promise that resolves to the singleton proxy object
  */
 export async function getSingleton<
   T extends keyof ClassMap,
   A extends ConstructorParameters<ClassMap[T]>
->(className: T, init?: A): Promise<InstanceType<ClassMap[T]>> {
-  return getProxySingleton(className, init);
+>(className: T, init?: A | SingletonOptions<A>): Promise<InstanceType<ClassMap[T]>> {
+  return getProxySingleton(getProxyManager(), className, init);
 }
 
 /**
@@ -41,20 +54,153 @@ export async function getSingleton<
  *
  * This function serves as the entry point for the Renderer Process API,
  * internally calling the proxy-manager's getSingletonSync function.
- * Always returns the same instance for a given class name.
+ * Always returns the same instance for a given class name, key and scope.
  *
  * Note: Synchronous IPC blocks the renderer process until the main process responds.
  * Use this function only when necessary, such as during initialization.
  *
  * @param className - The name of the class to instantiate, must be registered in ClassMap
- * @param init - Constructor parameters for the class (optional, used only on first creation)
+ * @param init - Constructor parameters for the class (optional, used only on first creation),
+ *   or singleton options selecting a keyed or scoped singleton
  * @returns The singleton proxy object
  */
 export function getSingletonSync<
   T extends keyof ClassMap,
   A extends ConstructorParameters<ClassMap[T]>
->(className: T, init?: A): InstanceType<ClassMap[T]> {
-  return getProxySingletonSync(className, init);
+>(className: T, init?: A | SingletonOptions<A>): InstanceType<ClassMap[T]> {
+  return getProxySingletonSync(getProxyManager(), className, init);
+}
+
+/**
+ * Releases a remote object explicitly.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's releaseObject function.
+ * The main process is notified immediately, instead of when the proxy is garbage
+ * collected, and subsequent calls on the proxy fail without contacting the main process.
+ * Proxies also implement `Symbol.dispose` and `Symbol.asyncDispose`, so they can be
+ * declared with `using` / `await using`.
+ *
+ * @param proxy - The proxy object to release
+ */
+export function releaseObject(proxy: object): void {
+  releaseProxyObject(proxy);
+}
+
+/**
+ * Exports a remote object so that another window can use it.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's exportObject function.
+ * Pass the returned token to the other window (e.g. through a singleton method),
+ * which obtains its own proxy with `importObject`. With `mode: 'transfer'`, this
+ * proxy becomes invalid; with `mode: 'share'` (default), the object lives until
+ * every window holding it has released it.
+ *
+ * @param proxy - The proxy object to export
+ * @param options - Export options
+ * @returns Promise that resolves to a single-use token, valid for one minute
+ */
+export async function exportObject(proxy: object, options?: ExportOptions): Promise<string> {
+  return exportProxyObject(proxy, options);
+}
+
+/**
+ * Imports a remote object exported by another window.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's importObject function.
+ *
+ * @param token - Token returned by exportObject
+ * @returns Promise that resolves to the proxy object
+ */
+export async function importObject<T extends object = object>(token: string): Promise<T> {
+  return importProxyObject<T>(getProxyManager(), token);
+}
+
+/**
+ * Returns a view of a proxy whose method calls are made with the given options.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's withOptions function.
+ * With `signal`, aborting the signal rejects pending calls with the signal's reason.
+ * With `timeout`, calls that do not settle in time reject with `CallTimeoutError`.
+ * In both cases the main-side method can observe the cancellation through
+ * `getCurrentSignal()`.
+ * With `batch: false`, calls are sent immediately instead of being batched with
+ * other calls made in the same task.
+ *
+ * @param proxy - The proxy object
+ * @param options - Call options
+ * @returns A view of the proxy applying the options to its method calls
+ */
+export function withOptions<T extends object>(proxy: T, options: CallOptions): T {
+  return withProxyOptions(proxy, options);
+}
+
+/**
+ * Subscribes to changes of a proxy's observable state.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's subscribeState function.
+ * The state itself is read synchronously from the proxy property named by
+ * `[EXTENSION_METADATA].state`; the listener is called after each batch of
+ * changes made in the main process.
+ *
+ * @param proxy - The proxy object
+ * @param listener - Listener called with the new snapshot and the applied patches
+ * @returns Function that unsubscribes the listener
+ */
+export function subscribeState(proxy: object, listener: StateListener): () => void {
+  return subscribeProxyState(proxy, listener);
+}
+
+/**
+ * Exposes an object to the main process.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's exposeObject function.
+ * The main process calls methods of the object through
+ * `getRendererObject(webContents, name)`.
+ *
+ * @param name - Name the object is exposed under
+ * @param object - The object to expose
+ * @returns Function that stops exposing the object
+ */
+export function exposeObject(name: string, object: object): () => void {
+  return exposeProxyObject(getProxyManager(), name, object);
+}
+
+/**
+ * Publishes an object to other windows.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's publishObject function.
+ * Other windows call methods of the object through `getPublishedObject(name)`,
+ * with the main process relaying the calls.
+ *
+ * @param name - Name the object is published under
+ * @param object - The object to publish
+ * @param options - Methods other windows may call
+ * @returns Promise that resolves to a function withdrawing the object
+ */
+export async function publishObject(name: string, object: object, options?: PublishOptions): Promise<() => void> {
+  return publishProxyObject(getProxyManager(), name, object, options);
+}
+
+/**
+ * Obtains a proxy to an object published by another window.
+ *
+ * This function serves as the entry point for the Renderer Process API,
+ * internally calling the proxy-manager's getPublishedObject function.
+ * Calls made after the publishing window withdrew the object, navigated away or
+ * was closed reject with `DisconnectedError`.
+ *
+ * @param name - Name the object is published under
+ * @returns Promise that resolves to the proxy object
+ */
+export async function getPublishedObject<T extends object = any>(name: string): Promise<T> {
+  return getProxyPublishedObject<T>(getProxyManager(), name);
 }
 
 /**
@@ -63,6 +209,21 @@ export function getSingletonSync<
  */
 export type SingletonObject = { readonly [K in keyof ClassMap]: InstanceType<ClassMap[K]> };
 
+/**
+ * Creates a singleton object proxy whose properties return the singletons of the
+ * proxy manager returned by `resolveManager`.
+ */
+function createSingletonObject(resolveManager: () => ProxyManager): SingletonObject {
+  return new Proxy({} as SingletonObject, {
+    get(_target, prop: string | symbol) {
+      if (typeof prop === 'string') {
+        return getProxySingletonSync(resolveManager(), prop as keyof ClassMap);
+      }
+      return undefined;
+    }
+  });
+}
+
 /**
  * Singleton object proxy for convenient singleton access.
  * Properties correspond to class names in ClassMap.
@@ -75,11 +236,56 @@ export type SingletonObject = { readonly [K in keyof ClassMap]: InstanceType<Cla
  * // Type-safe access
  * const config = singleton.Config;
  */
-export const singleton: SingletonObject = new Proxy({} as SingletonObject, {
-  get(_target, prop: string | symbol) {
-    if (typeof prop === 'string') {
-      return getProxySingletonSync(prop as keyof ClassMap);
-    }
-    return undefined;
-  }
-});
\ No newline at end of file
+export const singleton: SingletonObject = createSingletonObject(() => getProxyManager());
+
+/**
+ * Options for creating a client of a separate proxy instance.
+ */
+export interface ObjProxyClientOptions {
+  /** Name of the global exposing the API, as passed to `exposeObjProxy` in the preload */
+  globalName: string;
+}
+
+/**
+ * Client of a proxy instance, with the object-creating functions of the Renderer Process API
+ * bound to that instance. Functions taking a proxy (`releaseObject`, `withOptions`,
+ * `subscribeState`, `exportObject`) work on proxies of every instance.
+ */
+export interface ObjProxyClient {
+  createObject<T extends keyof ClassMap, A extends ConstructorParameters<ClassMap[T]>>(className: T, init?: A): Promise<InstanceType<ClassMap[T]>>;
+  getSingleton<T extends keyof ClassMap, A extends ConstructorParameters<ClassMap[T]>>(className: T, init?: A | SingletonOptions<A>): Promise<InstanceType<ClassMap[T]>>;
+  getSingletonSync<T extends keyof ClassMap, A extends ConstructorParameters<ClassMap[T]>>(className: T, init?: A | SingletonOptions<A>): InstanceType<ClassMap[T]>;
+  importObject<T extends object = object>(token: string): Promise<T>;
+  exposeObject(name: string, object: object): () => void;
+  publishObject(name: string, object: object, options?: PublishOptions): Promise<() => void>;
+  getPublishedObject<T extends object = any>(name: string): Promise<T>;
+  readonly singleton: SingletonObject;
+}
+
+/**
+ * Creates a client of a proxy instance other than the default one, talking to the main process
+ * through the API that `exposeObjProxy` exposed under `globalName`.
+ *
+ * @example
+ * // preload: exposeObjProxy({ channel: 'my-lib', globalName: '__myLibObjProxy' });
+ * const client = createObjProxyClient({ globalName: '__myLibObjProxy' });
+ * const store = await client.getSingleton('Store');
+ *
+ * @param options - Global name of the API
+ * @returns The client
+ * @throws If the API is not exposed under the name
+ */
+export function createObjProxyClient(options: ObjProxyClientOptions): ObjProxyClient {
+  const manager = getProxyManager(options.globalName);
+
+  return {
+    createObject: (className, init) => createProxyObject(manager, className, init),
+    getSingleton: (className, init) => getProxySingleton(manager, className, init),
+    getSingletonSync: (className, init) => getProxySingletonSync(manager, className, init),
+    importObject: (token) => importProxyObject(manager, token),
+    exposeObject: (name, object) => exposeProxyObject(manager, name, object),
+    publishObject: (name, object, publishOptions) => publishProxyObject(manager, name, object, publishOptions),
+    getPublishedObject: (name) => getProxyPublishedObject(manager, name),
+    singleton: createSingletonObject(() => manager),
+  };
+}
\ No newline at end of file
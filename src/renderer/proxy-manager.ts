@@ -1,21 +1,126 @@
-import type { ClassMap, ElectronObjProxyAPI, ExtensionMetadata } from '../common/types.js';
-import { OBJECT_METADATA, IPC_CHANNEL } from '../common/constants.js';
+import type { ClassMap, ElectronObjProxyAPI, ExtensionMetadata, SingletonOptions, InvokeResponse, CallMethodRequest, BatchedCall, EncodedObjectReference, EncodedCallbackReference, InvokeCallbackMessage, CallExposedObjectMessage, StateMessage, StatePatch } from '../common/types.js';
+import { OBJECT_METADATA, DEFAULT_GLOBAL_NAME, ENCODED_VALUE_MARKER } from '../common/constants.js';
+import { transformValue, isEncodedValue, createForwardedEvent } from '../common/encoding.js';
+import { serializeError, deserializeError, CallTimeoutError, DisconnectedError } from '../common/errors.js';
+import { encodeCodecValue, decodeCodecValue, encodeCodecValues } from '../common/codecs.js';
 
 /**
- * Access to the ElectronObjProxyAPI provided by the preload script.
+ * State of the renderer side of a proxy instance, talking to the main process through
+ * the API exposed by the preload script under one global name.
  */
-const api = (window as any).__electronObjProxy as ElectronObjProxyAPI;
+export interface ProxyManager {
+  /** Access to the ElectronObjProxyAPI provided by the preload script */
+  api: ElectronObjProxyAPI;
+  /** Map to manage proxy objects using WeakRef for automatic cleanup */
+  objectMap: Record<number, WeakRef<ObjectRenderer>>;
+  /**
+   * Map to manage singleton proxy objects with strong references, keyed by
+   * class name, scope and key (see `getSingletonProxyKey`).
+   * These proxies are never garbage collected until page reload.
+   */
+  singletonProxyMap: Record<string, ObjectRenderer>;
+  /** Map of callback IDs to callbacks passed as method arguments */
+  callbackMap: Record<number, Function>;
+  /**
+   * Callbacks passed to each object, keyed by function so that passing the same
+   * function to the same object again reuses its callback ID.
+   * Entries are removed when the object's proxy is released.
+   */
+  callbacksByObject: Record<number, Map<Function, number>>;
+  /** Objects exposed to the main process with `exposeObject`, keyed by name */
+  exposedObjects: Map<string, object>;
+  /** Objects published to other renderers with `publishObject`, keyed by name */
+  publishedObjects: Map<string, PublishedObjectRenderer>;
+  /**
+   * Proxies to objects published by other renderers, keyed by publication ID.
+   * Publication IDs are not object IDs, so these proxies are kept apart from objectMap.
+   */
+  publishedProxies: Map<number, WeakRef<object>>;
+  /**
+   * Callbacks passed through each publication, keyed by publication ID: to a published
+   * proxy, or returned by an object published by this renderer.
+   */
+  callbacksByPublication: Map<number, Map<Function, number>>;
+  /** Functions of other renderers relayed by the main process, keyed by function ID */
+  relayedFunctions: Map<number, WeakRef<Function>>;
+  /** Method calls made in the current task, sent together when the task ends */
+  pendingBatch: PendingBatchedCall[];
+}
 
-if (!api) {
-  throw new Error('ElectronObjProxyAPI is not available. initObjProxy() must be called in the main process.');
+/**
+ * Object published by this renderer with `publishObject`.
+ */
+interface PublishedObjectRenderer {
+  object: object;
+  /** ID of the publication, to which callbacks returned by the object are bound */
+  publicationId: number;
+  /** Methods other renderers may call; own methods of the object when undefined */
+  methods?: Set<string>;
 }
 
+/**
+ * Proxy managers by the global name of their API.
+ */
+const managers = new Map<string, ProxyManager>();
+
+/**
+ * State of a proxy to an object published by another renderer.
+ */
+interface PublishedProxyState {
+  manager: ProxyManager;
+  publicationId: number;
+  /** Whether the proxy has been released with `releaseObject` */
+  released: boolean;
+}
+
+/**
+ * States of the proxies returned by `getPublishedObject`.
+ */
+const publishedProxyStates = new WeakMap<object, PublishedProxyState>();
+
 /**
  * Metadata interface for objects in the renderer process.
  */
 interface ObjectMetadataRenderer {
+  /** Proxy manager the object belongs to */
+  manager: ProxyManager;
   /** Unique identifier for the object */
   objectId: number;
+  /** Set once the proxy has been explicitly released; remote access then fails locally */
+  released: boolean;
+  /** Mirrored observable state, when the class declares `extensions.state` */
+  state?: ObjectStateRenderer;
+  /** Whether method calls are batched by default (`extensions.batch`) */
+  batch: boolean;
+  /** Listeners registered with `on` and `once` on an EventEmitter proxy, by event name */
+  emitterListeners?: Map<string, EmitterListener[]>;
+}
+
+/**
+ * Listener registered on an EventEmitter proxy.
+ */
+interface EmitterListener {
+  listener: (...args: any[]) => void;
+  /** Whether the listener is removed when first called */
+  once: boolean;
+}
+
+/**
+ * Listener notified when the mirrored state of a remote object changes.
+ *
+ * @param state - The new state snapshot
+ * @param patches - The changes applied to the previous snapshot
+ */
+export type StateListener = (state: unknown, patches: StatePatch[]) => void;
+
+/**
+ * Mirrored observable state of a remote object.
+ */
+interface ObjectStateRenderer {
+  /** Current snapshot, replaced (never mutated) when patches are applied */
+  value: unknown;
+  /** Listeners registered with subscribeState */
+  listeners: Set<StateListener>;
 }
 
 /**
@@ -25,38 +130,97 @@ interface ObjectMetadataRenderer {
 type ObjectRenderer = {} | EventTarget;
 
 /**
- * Map to manage proxy objects using WeakRef for automatic cleanup.
+ * Next callback ID to be assigned.
+ */
+let nextCallbackId = 1;
+
+/**
+ * Remote method functions returned by proxies, recognized by `withOptions`.
+ */
+const remoteMethods = new WeakSet<Function>();
+
+/**
+ * Next call ID to be assigned to a cancellable method call.
+ */
+let nextCallId = 1;
+
+/**
+ * Options for remote method calls made through `withOptions`.
  */
-const objectMap: Record<number, WeakRef<ObjectRenderer>> = {};
+export interface CallOptions {
+  /** Signal cancelling the call; the main side observes it via `getCurrentSignal()` */
+  signal?: AbortSignal;
+  /** Time in milliseconds after which the call is cancelled and rejects with `CallTimeoutError` */
+  timeout?: number;
+  /**
+   * Whether the call may be batched with other calls made in the same task.
+   * Defaults to the class's `extensions.batch`. Calls with `signal` or `timeout` are never batched.
+   */
+  batch?: boolean;
+}
 
 /**
- * Map to manage singleton proxy objects with strong references.
- * These proxies are never garbage collected until page reload.
+ * Method call waiting to be sent in the next batch.
  */
-const singletonProxyMap: Record<string, ObjectRenderer> = {};
+interface PendingBatchedCall {
+  call: BatchedCall;
+  resolve: (response: InvokeResponse<unknown>) => void;
+  reject: (reason: unknown) => void;
+}
 
 /**
  * Creates a proxy object from an IPC response containing objectId and isEventTarget.
  * This is a helper function shared by createObject and getSingleton.
  *
+ * @param manager - Proxy manager the object belongs to
  * @param objectId - The unique identifier for the remote object
  * @param isEventTarget - Whether the remote object is an EventTarget
  * @param extensions - Optional extension metadata for additional features
+ * @param state - Snapshot of the observable state
+ * @param isEventEmitter - Whether the remote object is an EventEmitter
  * @returns The created proxy object
  */
-function createProxyFromResponse(objectId: number, isEventTarget: boolean, extensions?: ExtensionMetadata): ObjectRenderer {
+function createProxyFromResponse(
+  manager: ProxyManager,
+  objectId: number,
+  isEventTarget: boolean,
+  extensions?: ExtensionMetadata,
+  state?: unknown,
+  isEventEmitter = false
+): ObjectRenderer {
   // Create base object based on whether it's an EventTarget
   const target: ObjectRenderer = isEventTarget ? new EventTarget() : {};
 
   // Create metadata object
-  const metadata: ObjectMetadataRenderer = { objectId };
+  const metadata: ObjectMetadataRenderer = { manager, objectId, released: false, batch: extensions?.batch !== false };
+
+  // Name of the property mirroring the observable state
+  const stateProperty = extensions?.state;
+  if (stateProperty) {
+    metadata.state = { value: state, listeners: new Set() };
+  }
 
   // Create method cache scoped to this proxy instance
   const methodCache: Record<string, Function> = {};
 
+  // Listener registration is tracked to report listened event types: through
+  // addEventListener for EventTargets, and through on/off/once for EventEmitters
+  const listenerMethods = target instanceof EventTarget
+    ? trackEventListeners(manager, metadata, target)
+    : isEventEmitter
+      ? trackEmitterListeners(manager, metadata, () => proxy)
+      : new Map<string, Function>();
+
   // Build a set of messagePort methods for fast lookup
   const messagePortMethods = new Set(extensions?.messagePort?.methods);
 
+  // Build a map of exposed properties for fast lookup
+  const properties = new Map(Object.entries(extensions?.properties ?? {}));
+
+  // Dispose methods release the proxy explicitly
+  const dispose = () => releaseObject(proxy);
+  const asyncDispose = async () => releaseObject(proxy);
+
   // Create proxy with custom behavior
   const proxy = new Proxy(target, {
     get(target, prop, receiver) {
@@ -70,17 +234,50 @@ function createProxyFromResponse(objectId: number, isEventTarget: boolean, exten
         return metadata;
       }
 
+      // Support `using` / `await using` declarations
+      if (prop === Symbol.dispose) {
+        return dispose;
+      }
+      if (prop === Symbol.asyncDispose) {
+        return asyncDispose;
+      }
+
+      // The observable state is read from the local snapshot
+      if (prop === stateProperty) {
+        return metadata.state?.value;
+      }
+
+      // Exposed properties are read remotely on every access
+      if (typeof prop === 'string' && properties.has(prop)) {
+        if (metadata.released) {
+          return Promise.reject(createReleasedError(objectId));
+        }
+        flushBatch(manager);
+        return manager.api.invoke({
+          type: 'get',
+          objectId,
+          property: prop,
+        }).then((response) => decodeValue(manager, unwrapResponse(response)));
+      }
+
       // For string properties, check if they exist on target first
       if (typeof prop === 'string') {
         if (!methodCache[prop]) {
           // Check if the property exists on the target object
           const targetValue = Reflect.get(target, prop);
-          if (typeof targetValue === 'function') {
+          const listenerMethod = listenerMethods.get(prop);
+          if (listenerMethod) {
+            methodCache[prop] = listenerMethod;
+          } else if (typeof targetValue === 'function') {
             // If it's a function on the target, bind it to the target
             methodCache[prop] = targetValue.bind(target);
           } else if (messagePortMethods.has(prop)) {
             // MessagePort method: fire-and-forget via postMessage
             methodCache[prop] = function (...args: unknown[]) {
+              if (metadata.released) {
+                throw createReleasedError(objectId);
+              }
+
               // Check if the last argument is a MessagePort array
               let ports: MessagePort[] = [];
               const lastArg = args[args.length - 1];
@@ -88,26 +285,24 @@ function createProxyFromResponse(objectId: number, isEventTarget: boolean, exten
                 ports = args.pop() as MessagePort[];
               }
 
+              flushBatch(manager);
               window.postMessage({
-                channel: IPC_CHANNEL,
+                channel: manager.api.channel,
                 message: {
                   type: 'callWithPort',
                   objectId,
                   method: prop,
-                  args,
+                  args: encodeValue(manager, args, getObjectCallbacks(manager, objectId)),
                 },
               }, '*', ports);
             };
           } else {
             // Otherwise, create a remote method call
-            methodCache[prop] = async function (...args: unknown[]) {
-              return api.invoke({
-                type: 'call',
-                objectId,
-                method: prop,
-                args,
-              });
+            const remoteMethod = async function (...args: unknown[]) {
+              return callRemoteMethod(metadata, prop, args);
             };
+            remoteMethods.add(remoteMethod);
+            methodCache[prop] = remoteMethod;
           }
         }
 
@@ -116,17 +311,574 @@ function createProxyFromResponse(objectId: number, isEventTarget: boolean, exten
 
       return Reflect.get(target, prop, receiver);
     },
+
+    set(target, prop, value, receiver) {
+      // The state snapshot is changed only by the main process
+      if (prop === stateProperty) {
+        return false;
+      }
+
+      if (typeof prop !== 'string' || !properties.has(prop)) {
+        return Reflect.set(target, prop, value, receiver);
+      }
+
+      if (metadata.released) {
+        throw createReleasedError(objectId);
+      }
+
+      // Read-only properties fail the assignment (TypeError in strict mode)
+      if (properties.get(prop)?.readonly) {
+        return false;
+      }
+
+      // Assignment cannot be awaited, so failures are only reported
+      flushBatch(manager);
+      manager.api.invoke({
+        type: 'set',
+        objectId,
+        property: prop,
+        value: encodeValue(manager, value, getObjectCallbacks(manager, objectId)),
+      }).then(unwrapResponse).catch((error) => {
+        console.warn(`Failed to set property '${prop}' on object with ID ${objectId}:`, error);
+      });
+
+      return true;
+    },
   });
 
   // Register the proxy in objectMap using WeakRef
-  objectMap[objectId] = new WeakRef(proxy);
+  manager.objectMap[objectId] = new WeakRef(proxy);
 
   return proxy;
 }
 
+/**
+ * Wraps `addEventListener` and `removeEventListener` of the target of an EventTarget proxy,
+ * reporting the event types with at least one listener to the main process whenever they
+ * change, so that only events of those types are forwarded. Listeners are tracked by
+ * listener and capture flag like EventTarget does, including removal by `once` and `signal`.
+ *
+ * @param manager - Proxy manager the object belongs to
+ * @param metadata - Metadata of the proxy
+ * @param target - Target of the proxy, which dispatches the forwarded events
+ * @returns The wrapped methods, by name
+ */
+function trackEventListeners(manager: ProxyManager, metadata: ObjectMetadataRenderer, target: EventTarget): Map<string, Function> {
+  const listeners = new Map<string, Map<EventListenerOrEventListenerObject, Set<boolean>>>();
+
+  const report = () => {
+    if (!metadata.released) {
+      manager.api.send({ type: 'listen', objectId: metadata.objectId, eventTypes: [...listeners.keys()] });
+    }
+  };
+
+  const untrack = (type: string, listener: EventListenerOrEventListenerObject, capture: boolean) => {
+    const captures = listeners.get(type)?.get(listener);
+    if (!captures?.delete(capture)) {
+      return;
+    }
+    if (captures.size === 0) {
+      listeners.get(type)!.delete(listener);
+    }
+    if (listeners.get(type)!.size === 0) {
+      listeners.delete(type);
+      report();
+    }
+  };
+
+  const addEventListener = (
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions
+  ) => {
+    target.addEventListener(type, listener, options);
+
+    const capture = typeof options === 'boolean' ? options : options?.capture ?? false;
+    const signal = typeof options === 'object' ? options.signal : undefined;
+    if (!listener || signal?.aborted) {
+      return;
+    }
+
+    let byListener = listeners.get(type);
+    const isNewType = !byListener;
+    if (!byListener) {
+      byListener = new Map();
+      listeners.set(type, byListener);
+    }
+    let captures = byListener.get(listener);
+    if (!captures) {
+      captures = new Set();
+      byListener.set(listener, captures);
+    }
+    if (captures.has(capture)) {
+      return;
+    }
+    captures.add(capture);
+
+    if (typeof options === 'object' && options.once) {
+      target.addEventListener(type, () => untrack(type, listener, capture), { once: true, capture });
+    }
+    signal?.addEventListener('abort', () => untrack(type, listener, capture), { once: true });
+
+    if (isNewType) {
+      report();
+    }
+  };
+
+  const removeEventListener = (
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions
+  ) => {
+    target.removeEventListener(type, listener, options);
+
+    if (listener) {
+      untrack(type, listener, typeof options === 'boolean' ? options : options?.capture ?? false);
+    }
+  };
+
+  return new Map<string, Function>([
+    ['addEventListener', addEventListener],
+    ['removeEventListener', removeEventListener],
+  ]);
+}
+
+/**
+ * Creates `on`, `off` and `once` of an EventEmitter proxy, following the semantics of
+ * Node's EventEmitter: the same listener can be added several times, and `off` removes
+ * the most recently added one. Event names with at least one listener are reported to
+ * the main process whenever they change, as for EventTarget proxies.
+ *
+ * @param manager - Proxy manager the object belongs to
+ * @param metadata - Metadata of the proxy, receiving the listener registry
+ * @param getProxy - Returns the proxy, which the methods return for chaining
+ * @returns The methods, by name
+ */
+function trackEmitterListeners(manager: ProxyManager, metadata: ObjectMetadataRenderer, getProxy: () => object): Map<string, Function> {
+  const listeners = new Map<string, EmitterListener[]>();
+  metadata.emitterListeners = listeners;
+
+  const add = (eventName: string, listener: (...args: any[]) => void, once: boolean) => {
+    const entries = listeners.get(eventName);
+    if (entries) {
+      entries.push({ listener, once });
+    } else {
+      listeners.set(eventName, [{ listener, once }]);
+      reportEmitterListeners(manager, metadata);
+    }
+    return getProxy();
+  };
+
+  const off = (eventName: string, listener: (...args: any[]) => void) => {
+    const entries = listeners.get(eventName);
+    const index = entries ? entries.map((entry) => entry.listener).lastIndexOf(listener) : -1;
+    if (index >= 0) {
+      removeEmitterListener(metadata, eventName, entries![index]);
+    }
+    return getProxy();
+  };
+
+  return new Map<string, Function>([
+    ['on', (eventName: string, listener: (...args: any[]) => void) => add(eventName, listener, false)],
+    ['once', (eventName: string, listener: (...args: any[]) => void) => add(eventName, listener, true)],
+    ['off', off],
+  ]);
+}
+
+/**
+ * Removes a listener entry from an EventEmitter proxy, reporting the change to the main
+ * process when no listener is left for the event name.
+ */
+function removeEmitterListener(metadata: ObjectMetadataRenderer, eventName: string, entry: EmitterListener): void {
+  const entries = metadata.emitterListeners?.get(eventName);
+  const index = entries?.indexOf(entry) ?? -1;
+  if (index < 0) {
+    return;
+  }
+  entries!.splice(index, 1);
+  if (entries!.length === 0) {
+    metadata.emitterListeners!.delete(eventName);
+    reportEmitterListeners(metadata.manager, metadata);
+  }
+}
+
+/**
+ * Reports the event names listened to on an EventEmitter proxy to the main process.
+ */
+function reportEmitterListeners(manager: ProxyManager, metadata: ObjectMetadataRenderer): void {
+  if (!metadata.released) {
+    manager.api.send({ type: 'listen', objectId: metadata.objectId, eventTypes: [...(metadata.emitterListeners?.keys() ?? [])] });
+  }
+}
+
+/**
+ * Returns the callback registry of a publication, creating it on first use.
+ */
+function getPublicationCallbacks(manager: ProxyManager, publicationId: number): Map<Function, number> {
+  let callbacks = manager.callbacksByPublication.get(publicationId);
+  if (!callbacks) {
+    callbacks = new Map();
+    manager.callbacksByPublication.set(publicationId, callbacks);
+  }
+  return callbacks;
+}
+
+/**
+ * Removes the callbacks passed through a publication, without notifying the main process.
+ */
+function forgetPublicationCallbacks(manager: ProxyManager, publicationId: number): void {
+  const callbacks = manager.callbacksByPublication.get(publicationId);
+  if (callbacks) {
+    deleteCallbacks(manager, callbacks);
+    manager.callbacksByPublication.delete(publicationId);
+  }
+}
+
+/**
+ * Returns the callback registry of an object, creating it on first use.
+ */
+function getObjectCallbacks(manager: ProxyManager, objectId: number): Map<Function, number> {
+  return manager.callbacksByObject[objectId] ??= new Map();
+}
+
+/**
+ * Extracts the result from a response envelope, rethrowing a transferred error.
+ */
+function unwrapResponse<T>(response: InvokeResponse<T>): T {
+  if ('error' in response) {
+    throw deserializeError(response.error);
+  }
+  return response.result;
+}
+
+/**
+ * Calls a method on a remote object.
+ * With a signal or timeout in `options`, the call is made cancellable: it rejects as soon
+ * as the signal is aborted (with the signal's reason) or the timeout elapses (with
+ * `CallTimeoutError`), and the main process is notified to abort the call's signal.
+ *
+ * @param metadata - Metadata of the proxy the method is called on
+ * @param method - Name of the method
+ * @param args - Method arguments
+ * @param options - Call options
+ * @returns Promise that resolves to the decoded method result
+ */
+async function callRemoteMethod(
+  metadata: ObjectMetadataRenderer,
+  method: string,
+  args: unknown[],
+  options?: CallOptions
+): Promise<unknown> {
+  const { manager, objectId } = metadata;
+  if (metadata.released) {
+    throw createReleasedError(objectId);
+  }
+
+  const payload: CallMethodRequest = {
+    type: 'call',
+    objectId,
+    method,
+    args: encodeValue(manager, args, getObjectCallbacks(manager, objectId)) as unknown[],
+  };
+
+  const signal = options?.signal;
+  const timeout = options?.timeout;
+  if (!signal && timeout === undefined) {
+    const batch = options?.batch ?? metadata.batch;
+    if (batch) {
+      const { objectId, method, args } = payload;
+      return decodeValue(manager, unwrapResponse(await enqueueBatchedCall(manager, { objectId, method, args })));
+    }
+    flushBatch(manager);
+    return decodeValue(manager, unwrapResponse(await manager.api.invoke(payload)));
+  }
+
+  flushBatch(manager);
+
+  signal?.throwIfAborted();
+
+  const callId = nextCallId++;
+  payload.callId = callId;
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const cancel = (reason: unknown) => {
+      cleanup();
+      manager.api.send({ type: 'cancel', callId, reason: serializeError(reason) });
+      reject(reason);
+    };
+
+    const onAbort = () => cancel(signal!.reason);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeout !== undefined) {
+      timer = setTimeout(() => cancel(new CallTimeoutError(method, timeout)), timeout);
+    }
+
+    manager.api.invoke(payload).then(
+      (response) => {
+        cleanup();
+        try {
+          resolve(decodeValue(manager, unwrapResponse(response)));
+        } catch (error) {
+          reject(error);
+        }
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Adds a method call to the pending batch, scheduling the batch to be sent when
+ * the current task ends.
+ *
+ * @param call - The method call
+ * @returns Promise that resolves to the response envelope of the call
+ */
+function enqueueBatchedCall(manager: ProxyManager, call: BatchedCall): Promise<InvokeResponse<unknown>> {
+  return new Promise((resolve, reject) => {
+    if (manager.pendingBatch.length === 0) {
+      queueMicrotask(() => flushBatch(manager));
+    }
+    manager.pendingBatch.push({ call, resolve, reject });
+  });
+}
+
+/**
+ * Sends the pending batch of method calls.
+ * Also called before sending any other request, so that requests reach the main
+ * process in the order they were made. A batch of one call is sent as a plain call.
+ * If the batch cannot be sent (e.g., an argument of one call cannot be cloned), its calls
+ * are sent again one by one, so that each call settles on its own.
+ */
+function flushBatch(manager: ProxyManager): void {
+  const batch = manager.pendingBatch;
+  if (batch.length === 0) {
+    return;
+  }
+  manager.pendingBatch = [];
+
+  if (batch.length === 1) {
+    sendBatchedCall(manager, batch[0]);
+    return;
+  }
+
+  new Promise<InvokeResponse<InvokeResponse<unknown>[]>>((resolve) => {
+    resolve(manager.api.invoke({ type: 'batch', calls: batch.map(({ call }) => call) }));
+  }).then(
+    (response) => {
+      let responses: InvokeResponse<unknown>[];
+      try {
+        responses = unwrapResponse(response);
+      } catch (error) {
+        batch.forEach(({ reject }) => reject(error));
+        return;
+      }
+      batch.forEach(({ resolve }, index) => resolve(responses[index]));
+    },
+    () => {
+      batch.forEach((pending) => sendBatchedCall(manager, pending));
+    }
+  );
+}
+
+/**
+ * Sends a batched method call on its own as a plain call.
+ * Failures to send it, including synchronous ones, reject the call.
+ */
+function sendBatchedCall(manager: ProxyManager, { call, resolve, reject }: PendingBatchedCall): void {
+  new Promise<InvokeResponse<unknown>>((resolveInvoke) => {
+    resolveInvoke(manager.api.invoke({ type: 'call', ...call }));
+  }).then(resolve, reject);
+}
+
+/**
+ * Returns a view of a proxy whose remote method calls are made with the given options.
+ * Other members (properties, MessagePort methods, EventTarget methods) behave as on
+ * the original proxy.
+ *
+ * @param proxy - Proxy object
+ * @param options - Call options applied to every method call through the view
+ * @returns The view of the proxy
+ */
+export function withOptions<T extends object>(proxy: T, options: CallOptions): T {
+  const metadata = (proxy as any)[OBJECT_METADATA] as ObjectMetadataRenderer | undefined;
+  if (!metadata) {
+    throw new Error('The value is not a proxy object');
+  }
+
+  return new Proxy(proxy, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (typeof prop === 'string' && typeof value === 'function' && remoteMethods.has(value)) {
+        return async (...args: unknown[]) => callRemoteMethod(metadata, prop, args, options);
+      }
+      return value;
+    },
+  });
+}
+
+/**
+ * Encodes a value sent to the main process, replacing proxies with object references.
+ * When `callbacks` is given, functions are registered in it and replaced with callback
+ * references; otherwise they are left as-is.
+ */
+function encodeValue(manager: ProxyManager, value: unknown, callbacks?: Map<Function, number>): unknown {
+  return transformValue(value, (current) => {
+    if (typeof current === 'function') {
+      if (!callbacks) {
+        return current;
+      }
+      let callbackId = callbacks.get(current);
+      if (callbackId === undefined) {
+        callbackId = nextCallbackId++;
+        callbacks.set(current, callbackId);
+        manager.callbackMap[callbackId] = current;
+      }
+      const reference: EncodedCallbackReference = { [ENCODED_VALUE_MARKER]: 'callback', callbackId };
+      return reference;
+    }
+
+    const metadata = (current as any)[OBJECT_METADATA] as ObjectMetadataRenderer | undefined;
+    if (!metadata) {
+      return encodeCodecValue(current) ?? current;
+    }
+    const reference: EncodedObjectReference = { [ENCODED_VALUE_MARKER]: 'object', objectId: metadata.objectId };
+    return reference;
+  });
+}
+
+/**
+ * Decodes a value received from the main process, turning object references into proxies.
+ * An existing proxy for the same object is reused so that identity is preserved.
+ */
+function decodeValue(manager: ProxyManager, value: unknown): unknown {
+  return transformValue(value, (current) => {
+    if (!isEncodedValue(current)) {
+      return current;
+    }
+
+    switch (current[ENCODED_VALUE_MARKER]) {
+      case 'object': {
+        const existing = manager.objectMap[current.objectId]?.deref();
+        if (existing) {
+          return existing;
+        }
+        return createProxyFromResponse(manager, current.objectId, current.isEventTarget ?? false, current.extensions, current.state, current.isEventEmitter);
+      }
+
+      case 'function':
+        return getRelayedFunction(manager, current.functionId);
+
+      case 'iterator':
+        return createRemoteIterator(manager, current.iteratorId);
+
+      case 'codec':
+        return decodeCodecValue(current);
+
+      default:
+        return current;
+    }
+  });
+}
+
+/**
+ * Returns a function calling a function of another renderer relayed by the main process,
+ * reusing the one created earlier for the same ID while it is referenced.
+ * Arguments are encoded like method arguments, except that functions cannot be passed.
+ */
+function getRelayedFunction(manager: ProxyManager, functionId: number): Function {
+  const existing = manager.relayedFunctions.get(functionId)?.deref();
+  if (existing) {
+    return existing;
+  }
+
+  const relayed = async (...args: unknown[]) => {
+    const result = unwrapResponse(await manager.api.invoke({
+      type: 'callFunction',
+      functionId,
+      args: encodeValue(manager, args) as unknown[],
+    }));
+    return decodeValue(manager, result);
+  };
+  manager.relayedFunctions.set(functionId, new WeakRef(relayed));
+  return relayed;
+}
+
+/**
+ * Closes main-side iterators whose renderer-side iterator was garbage collected unfinished.
+ */
+const iteratorRegistry = new FinalizationRegistry<{ api: ElectronObjProxyAPI; iteratorId: number; state: { finished: boolean } }>(({ api, iteratorId, state }) => {
+  if (!state.finished) {
+    api.invoke({ type: 'iteratorReturn', iteratorId }).catch(() => {});
+  }
+});
+
+/**
+ * Creates an async iterator that pulls values from an iterator in the main process,
+ * one value per `next()` call. Breaking out of a `for await` loop (or calling `return()`)
+ * closes the main-side iterator; so does garbage collection of an unfinished iterator.
+ *
+ * @param manager - Proxy manager the iterator belongs to
+ * @param iteratorId - The identifier of the main-side iterator
+ * @returns The async iterator, which is also async iterable
+ */
+function createRemoteIterator(manager: ProxyManager, iteratorId: number): AsyncIterableIterator<unknown> {
+  const state = { finished: false };
+
+  const iterator: AsyncIterableIterator<unknown> = {
+    async next() {
+      if (state.finished) {
+        return { done: true, value: undefined };
+      }
+
+      let result: IteratorResult<unknown>;
+      try {
+        result = unwrapResponse(await manager.api.invoke({ type: 'iteratorNext', iteratorId }));
+      } catch (error) {
+        state.finished = true;
+        throw error;
+      }
+
+      if (result.done) {
+        state.finished = true;
+      }
+      return { done: result.done, value: decodeValue(manager, result.value) } as IteratorResult<unknown>;
+    },
+
+    async return(value?: unknown) {
+      if (!state.finished) {
+        state.finished = true;
+        unwrapResponse(await manager.api.invoke({ type: 'iteratorReturn', iteratorId }));
+      }
+      return { done: true, value };
+    },
+
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+
+  iteratorRegistry.register(iterator, { api: manager.api, iteratorId, state });
+
+  return iterator;
+}
+
+
 /**
  * Creates a remote object instance in the main process and returns a proxy.
  *
+ * @param manager - Proxy manager creating the object
  * @param className - The name of the class to instantiate
  * @param init - Constructor parameters for the class (optional)
  * @returns Promise that resolves to the created proxy object
@@ -134,56 +886,100 @@ function createProxyFromResponse(objectId: number, isEventTarget: boolean, exten
 export async function createObject<
   T extends keyof ClassMap,
   A extends ConstructorParameters<ClassMap[T]>
->(className: T, init?: A): Promise<InstanceType<ClassMap[T]>> {
+>(manager: ProxyManager, className: T, init?: A): Promise<InstanceType<ClassMap[T]>> {
+  // Callbacks passed to the constructor are bound to the object once its ID is known
+  const callbacks = new Map<Function, number>();
+
   // Send object creation request to main process via preload API
-  const response = await api.invoke({
-    type: 'new',
-    className: className as string,
-    args: init ?? [],
-  });
+  let response;
+  try {
+    response = unwrapResponse(await manager.api.invoke({
+      type: 'new',
+      className: className as string,
+      args: encodeValue(manager, init ?? [], callbacks) as unknown[],
+    }));
+  } catch (error) {
+    deleteCallbacks(manager, callbacks);
+    throw error;
+  }
 
-  const { objectId, isEventTarget, extensions } = response;
+  const { objectId, isEventTarget, isEventEmitter, extensions, state } = response;
+  bindCallbacks(manager, objectId, callbacks);
 
   // Create and register proxy object
-  const proxy = createProxyFromResponse(objectId, isEventTarget, extensions);
+  const proxy = createProxyFromResponse(manager, objectId, isEventTarget, extensions, state, isEventEmitter);
 
   return proxy as InstanceType<ClassMap[T]>;
 }
 
+/**
+ * Splits the `init` parameter of getSingleton into constructor arguments and singleton options.
+ * An array is taken as constructor arguments of the app-wide, unkeyed singleton.
+ */
+function normalizeSingletonOptions(init: unknown[] | SingletonOptions | undefined): SingletonOptions & { args: unknown[] } {
+  if (init === undefined || Array.isArray(init)) {
+    return { args: init ?? [] };
+  }
+  return { ...init, args: init.args ?? [] };
+}
+
+/**
+ * Returns the singletonProxyMap key of a singleton.
+ */
+function getSingletonProxyKey(className: string, key?: string, scope: SingletonOptions['scope'] = 'app'): string {
+  return JSON.stringify([className, scope, key ?? null]);
+}
+
 /**
  * Gets or creates a singleton object instance in the main process and returns a proxy.
  * If a singleton for the given class name already exists in the renderer process,
  * returns the cached proxy. Otherwise, requests the singleton from the main process.
  *
+ * @param manager - Proxy manager caching the singleton proxy
  * @param className - The name of the class to instantiate
- * @param init - Constructor parameters for the class (optional, used only on first creation)
+ * @param init - Constructor parameters for the class (optional, used only on first creation),
+ *   or singleton options selecting a keyed or scoped singleton
  * @returns Promise that resolves to the singleton proxy object
  */
 export async function getSingleton<
   T extends keyof ClassMap,
   A extends ConstructorParameters<ClassMap[T]>
->(className: T, init?: A): Promise<InstanceType<ClassMap[T]>> {
+>(manager: ProxyManager, className: T, init?: A | SingletonOptions<A>): Promise<InstanceType<ClassMap[T]>> {
   const classNameStr = className as string;
+  const { args, key, scope } = normalizeSingletonOptions(init);
+  const proxyKey = getSingletonProxyKey(classNameStr, key, scope);
 
   // Return cached singleton proxy if it exists
-  if (singletonProxyMap[classNameStr]) {
-    return singletonProxyMap[classNameStr] as InstanceType<ClassMap[T]>;
+  if (manager.singletonProxyMap[proxyKey]) {
+    return manager.singletonProxyMap[proxyKey] as InstanceType<ClassMap[T]>;
   }
 
+  // Callbacks passed to the constructor are bound to the singleton once its ID is known
+  const callbacks = new Map<Function, number>();
+
   // Send singleton retrieval request to main process via preload API
-  const response = await api.invoke({
-    type: 'getSingleton',
-    className: classNameStr,
-    args: init ?? [],
-  });
+  let response;
+  try {
+    response = unwrapResponse(await manager.api.invoke({
+      type: 'getSingleton',
+      className: classNameStr,
+      args: encodeValue(manager, args, callbacks) as unknown[],
+      key,
+      scope,
+    }));
+  } catch (error) {
+    deleteCallbacks(manager, callbacks);
+    throw error;
+  }
 
-  const { objectId, isEventTarget, extensions } = response;
+  const { objectId, isEventTarget, isEventEmitter, extensions, state } = response;
+  bindCallbacks(manager, objectId, callbacks);
 
   // Create and register proxy object
-  const proxy = createProxyFromResponse(objectId, isEventTarget, extensions);
+  const proxy = createProxyFromResponse(manager, objectId, isEventTarget, extensions, state, isEventEmitter);
 
   // Also register in singleton map for caching
-  singletonProxyMap[classNameStr] = proxy;
+  manager.singletonProxyMap[proxyKey] = proxy;
 
   return proxy as InstanceType<ClassMap[T]>;
 }
@@ -193,35 +989,51 @@ export async function getSingleton<
  * If a singleton for the given class name already exists in the renderer process,
  * returns the cached proxy. Otherwise, requests the singleton from the main process synchronously.
  *
+ * @param manager - Proxy manager caching the singleton proxy
  * @param className - The name of the class to instantiate
- * @param init - Constructor parameters for the class (optional, used only on first creation)
+ * @param init - Constructor parameters for the class (optional, used only on first creation),
+ *   or singleton options selecting a keyed or scoped singleton
  * @returns The singleton proxy object
  */
 export function getSingletonSync<
   T extends keyof ClassMap,
   A extends ConstructorParameters<ClassMap[T]>
->(className: T, init?: A): InstanceType<ClassMap[T]> {
+>(manager: ProxyManager, className: T, init?: A | SingletonOptions<A>): InstanceType<ClassMap[T]> {
   const classNameStr = className as string;
+  const { args, key, scope } = normalizeSingletonOptions(init);
+  const proxyKey = getSingletonProxyKey(classNameStr, key, scope);
 
   // Return cached singleton proxy if it exists
-  if (singletonProxyMap[classNameStr]) {
-    return singletonProxyMap[classNameStr] as InstanceType<ClassMap[T]>;
+  if (manager.singletonProxyMap[proxyKey]) {
+    return manager.singletonProxyMap[proxyKey] as InstanceType<ClassMap[T]>;
   }
 
+  // Callbacks passed to the constructor are bound to the singleton once its ID is known
+  const callbacks = new Map<Function, number>();
+
   // Send synchronous singleton retrieval request to main process via preload API
-  const response = api.sendSync({
-    type: 'getSingletonSync',
-    className: classNameStr,
-    args: init ?? [],
-  });
+  let response;
+  try {
+    response = unwrapResponse(manager.api.sendSync({
+      type: 'getSingletonSync',
+      className: classNameStr,
+      args: encodeValue(manager, args, callbacks) as unknown[],
+      key,
+      scope,
+    }));
+  } catch (error) {
+    deleteCallbacks(manager, callbacks);
+    throw error;
+  }
 
-  const { objectId, isEventTarget, extensions } = response;
+  const { objectId, isEventTarget, isEventEmitter, extensions, state } = response;
+  bindCallbacks(manager, objectId, callbacks);
 
   // Create and register proxy object
-  const proxy = createProxyFromResponse(objectId, isEventTarget, extensions);
+  const proxy = createProxyFromResponse(manager, objectId, isEventTarget, extensions, state, isEventEmitter);
 
   // Also register in singleton map for caching
-  singletonProxyMap[classNameStr] = proxy;
+  manager.singletonProxyMap[proxyKey] = proxy;
 
   return proxy as InstanceType<ClassMap[T]>;
 }
@@ -229,12 +1041,20 @@ export function getSingletonSync<
 /**
  * Dispatches an event to the corresponding proxy object.
  *
+ * @param manager - Proxy manager the object belongs to
  * @param objectId - ID of the object that should receive the event
  * @param eventType - Type of the event to dispatch
  * @param detail - Event detail information
+ * @param properties - Own enumerable properties of the event dispatched in the main process
  */
-export function dispatchEvent(objectId: number, eventType: string, detail: unknown): void {
-  const weakRef = objectMap[objectId];
+export function dispatchEvent(
+  manager: ProxyManager,
+  objectId: number,
+  eventType: string,
+  detail: unknown,
+  properties?: Record<string, unknown>
+): void {
+  const weakRef = manager.objectMap[objectId];
   if (!weakRef) {
     return;
   }
@@ -245,42 +1065,514 @@ export function dispatchEvent(objectId: number, eventType: string, detail: unkno
   }
 
   // Create and dispatch custom event
-  const event = new CustomEvent(eventType, { detail });
+  const event = createForwardedEvent(eventType, decodeValue(manager, detail), decodeValue(manager, properties) as Record<string, unknown> | undefined);
   proxy.dispatchEvent(event);
 }
 
+/**
+ * Calls the listeners registered with `on` or `once` on the corresponding EventEmitter proxy.
+ * Listeners registered with `once` are removed before being called.
+ *
+ * @param manager - Proxy manager the object belongs to
+ * @param objectId - ID of the object that emitted the event
+ * @param eventName - Name of the event
+ * @param args - Arguments passed to `emit` in the main process
+ */
+function emitEvent(manager: ProxyManager, objectId: number, eventName: string, args: unknown[]): void {
+  const proxy = manager.objectMap[objectId]?.deref();
+  const metadata = (proxy as any)?.[OBJECT_METADATA] as ObjectMetadataRenderer | undefined;
+  const listeners = metadata?.emitterListeners?.get(eventName);
+  if (!metadata || !listeners) {
+    return;
+  }
+
+  const decodedArgs = decodeValue(manager, args) as unknown[];
+  for (const entry of [...listeners]) {
+    if (entry.once) {
+      removeEmitterListener(metadata, eventName, entry);
+    }
+    try {
+      entry.listener.apply(proxy, decodedArgs);
+    } catch (error) {
+      console.error('Error in event listener:', error);
+    }
+  }
+}
+
+/**
+ * Applies state changes from the main process to the proxy's snapshot and notifies listeners.
+ *
+ * @param manager - Proxy manager the object belongs to
+ * @param message - State message carrying the object ID and the patches
+ */
+function applyStateMessage(manager: ProxyManager, message: StateMessage): void {
+  const proxy = manager.objectMap[message.objectId]?.deref();
+  const state = (proxy as any)?.[OBJECT_METADATA]?.state as ObjectStateRenderer | undefined;
+  if (!state) {
+    return;
+  }
+
+  for (const patch of message.patches) {
+    state.value = applyStatePatch(state.value, patch, 0);
+  }
+
+  for (const listener of [...state.listeners]) {
+    try {
+      listener(state.value, message.patches);
+    } catch (error) {
+      console.error('Error in state listener:', error);
+    }
+  }
+}
+
+/**
+ * Returns a copy of `value` with the patch applied below `path[depth]`.
+ * Objects along the path are copied so that previous snapshots remain unchanged.
+ */
+function applyStatePatch(value: unknown, patch: StatePatch, depth: number): unknown {
+  if (depth === patch.path.length) {
+    return patch.op === 'set' ? patch.value : undefined;
+  }
+
+  const key = patch.path[depth];
+  const copy: any = Array.isArray(value)
+    ? [...value]
+    : { ...(typeof value === 'object' && value !== null ? value : {}) };
+
+  if (patch.op === 'delete' && depth === patch.path.length - 1) {
+    delete copy[key];
+  } else {
+    copy[key] = applyStatePatch(copy[key], patch, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * Subscribes to changes of a proxy's observable state.
+ * The listener is called after each batch of changes with the new snapshot.
+ *
+ * @param proxy - Proxy of an object whose class declares `extensions.state`
+ * @param listener - Listener called with the new snapshot and the applied patches
+ * @returns Function that unsubscribes the listener
+ * @throws If the value is not a proxy object, or its class does not declare a state
+ */
+export function subscribeState(proxy: object, listener: StateListener): () => void {
+  const metadata = (proxy as any)[OBJECT_METADATA] as ObjectMetadataRenderer | undefined;
+  if (!metadata) {
+    throw new Error('The value is not a proxy object');
+  }
+  const state = metadata.state;
+  if (!state) {
+    throw new Error(`Object with ID ${metadata.objectId} does not declare an observable state`);
+  }
+
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+/**
+ * Creates the error thrown when a released proxy is used.
+ */
+function createReleasedError(objectId: number): Error {
+  return new Error(`Object with ID ${objectId} has been released`);
+}
+
+/**
+ * Explicitly releases a proxy object, notifying the main process immediately instead of
+ * waiting for the proxy to be garbage collected. Subsequent method calls and property
+ * accesses on the proxy fail locally. Releasing an already released proxy is a no-op.
+ *
+ * @param proxy - Proxy object obtained from createObject, getPublishedObject or as a method result
+ * @throws If the value is not a proxy object, or is a singleton proxy
+ */
+export function releaseObject(proxy: object): void {
+  const publishedState = publishedProxyStates.get(proxy);
+  if (publishedState) {
+    releasePublishedProxy(proxy, publishedState);
+    return;
+  }
+
+  const metadata = (proxy as any)[OBJECT_METADATA] as ObjectMetadataRenderer | undefined;
+  if (!metadata) {
+    throw new Error('The value is not a proxy object');
+  }
+
+  const { manager } = metadata;
+  if (Object.values(manager.singletonProxyMap).includes(proxy)) {
+    throw new Error(`Singleton object with ID ${metadata.objectId} cannot be released`);
+  }
+
+  if (metadata.released) {
+    return;
+  }
+  metadata.released = true;
+
+  // Another proxy may have been created for the same objectId after this one was released
+  if (manager.objectMap[metadata.objectId]?.deref() === proxy) {
+    releaseObjects(manager, [metadata.objectId]);
+  }
+}
+
+/**
+ * Releases a proxy returned by `getPublishedObject` (see `releaseObject`).
+ */
+function releasePublishedProxy(proxy: object, state: PublishedProxyState): void {
+  if (state.released) {
+    return;
+  }
+  state.released = true;
+
+  const { manager, publicationId } = state;
+  if (manager.publishedProxies.get(publicationId)?.deref() === proxy) {
+    releasePublishedProxies(manager, [publicationId]);
+  }
+}
+
+/**
+ * Options for exportObject.
+ */
+export interface ExportOptions {
+  /**
+   * `'share'` (default): the proxy stays usable, and the object lives until every frame
+   * holding it has released it.
+   * `'transfer'`: the proxy becomes invalid as if it had been released, and the importing
+   * frame becomes the only holder.
+   */
+  mode?: 'share' | 'transfer';
+}
+
+/**
+ * Exports an owned object so that another window (or frame) can import it with `importObject`.
+ *
+ * @param proxy - Proxy object obtained from createObject or as a method result
+ * @param options - Export options
+ * @returns Promise that resolves to a single-use token, valid for one minute
+ * @throws If the value is not a proxy object, is released, or is a singleton proxy
+ */
+export async function exportObject(proxy: object, options?: ExportOptions): Promise<string> {
+  const metadata = (proxy as any)[OBJECT_METADATA] as ObjectMetadataRenderer | undefined;
+  if (!metadata) {
+    throw new Error('The value is not a proxy object');
+  }
+  if (metadata.released) {
+    throw createReleasedError(metadata.objectId);
+  }
+
+  const { manager } = metadata;
+  const transfer = options?.mode === 'transfer';
+
+  // Calls made before the export reach the main process first
+  flushBatch(manager);
+  const token = unwrapResponse(await manager.api.invoke({ type: 'export', objectId: metadata.objectId, transfer }));
+
+  if (transfer) {
+    metadata.released = true;
+    if (manager.objectMap[metadata.objectId]?.deref() === proxy) {
+      forgetObject(manager, metadata.objectId);
+    }
+  }
+
+  return token;
+}
+
+/**
+ * Imports an object exported by another window (or frame) with `exportObject`.
+ * Events of the object are delivered to every frame holding it.
+ *
+ * @param manager - Proxy manager importing the object
+ * @param token - Token returned by exportObject
+ * @returns Promise that resolves to the proxy object
+ */
+export async function importObject<T extends object = object>(manager: ProxyManager, token: string): Promise<T> {
+  flushBatch(manager);
+  const { objectId, isEventTarget, isEventEmitter, extensions, state } = unwrapResponse(await manager.api.invoke({ type: 'import', token }));
+
+  const existing = manager.objectMap[objectId]?.deref();
+  if (existing && !((existing as any)[OBJECT_METADATA] as ObjectMetadataRenderer).released) {
+    return existing as T;
+  }
+  return createProxyFromResponse(manager, objectId, isEventTarget, extensions, state, isEventEmitter) as T;
+}
+
+/**
+ * Removes callbacks from the callback map.
+ */
+function deleteCallbacks(manager: ProxyManager, callbacks: Map<Function, number>): void {
+  for (const callbackId of callbacks.values()) {
+    delete manager.callbackMap[callbackId];
+  }
+}
+
+/**
+ * Binds callbacks passed to a constructor to the resulting object.
+ * An existing singleton ignores constructor arguments on the main side, but still
+ * holds the stubs, so callbacks are merged into the object's registry.
+ */
+function bindCallbacks(manager: ProxyManager, objectId: number, callbacks: Map<Function, number>): void {
+  const objectCallbacks = getObjectCallbacks(manager, objectId);
+  for (const [callback, callbackId] of callbacks) {
+    objectCallbacks.set(callback, callbackId);
+  }
+}
+
+/**
+ * Invokes a callback on behalf of the main process and reports its result.
+ *
+ * @param manager - Proxy manager holding the callback
+ * @param message - Callback invocation message from the main process
+ */
+async function invokeCallback(manager: ProxyManager, message: InvokeCallbackMessage): Promise<void> {
+  const { callbackId, callId, args } = message;
+
+  try {
+    const callback = manager.callbackMap[callbackId];
+    if (!callback) {
+      throw new Error(`Callback with ID ${callbackId} not found`);
+    }
+
+    const result = await callback(...(decodeValue(manager, args) as unknown[]));
+    manager.api.send({ type: 'callbackResult', callId, result: encodeValue(manager, result) });
+  } catch (error) {
+    manager.api.send({ type: 'callbackResult', callId, error: serializeError(error) });
+  }
+}
+
+/**
+ * Exposes an object to the main process, which calls its methods through
+ * `getRendererObject(webContents, name)`. Exposing another object under the same
+ * name replaces the previous one.
+ *
+ * @param manager - Proxy manager exposing the object
+ * @param name - Name the object is exposed under
+ * @param object - The object to expose
+ * @returns Function that stops exposing the object
+ */
+export function exposeObject(manager: ProxyManager, name: string, object: object): () => void {
+  manager.exposedObjects.set(name, object);
+  return () => {
+    if (manager.exposedObjects.get(name) === object) {
+      manager.exposedObjects.delete(name);
+    }
+  };
+}
+
+/**
+ * Options for publishing an object with `publishObject`.
+ */
+export interface PublishOptions {
+  /**
+   * Names of the methods other renderers may call, which may be inherited (e.g. methods
+   * of a class instance). By default, only own methods of the object can be called.
+   */
+  methods?: string[];
+}
+
+/**
+ * Publishes an object to other renderers under a name, through the main process.
+ * Publications are separate from the objects exposed to the main process with `exposeObject`.
+ * The object is withdrawn when this page navigates, reloads or is closed.
+ *
+ * @param manager - Proxy manager publishing the object
+ * @param name - Name the object is published under
+ * @param object - The object to publish
+ * @param options - Methods other renderers may call
+ * @returns Promise that resolves to a function withdrawing the object
+ * @throws If another window has published an object under the name
+ */
+export async function publishObject(manager: ProxyManager, name: string, object: object, options?: PublishOptions): Promise<() => void> {
+  const publicationId = unwrapResponse(await manager.api.invoke({ type: 'publish', name }));
+
+  const previous = manager.publishedObjects.get(name);
+  if (previous) {
+    forgetPublicationCallbacks(manager, previous.publicationId);
+  }
+  const published: PublishedObjectRenderer = {
+    object,
+    publicationId,
+    methods: options?.methods && new Set(options.methods),
+  };
+  manager.publishedObjects.set(name, published);
+
+  return () => {
+    if (manager.publishedObjects.get(name) !== published) {
+      return;
+    }
+    manager.publishedObjects.delete(name);
+    forgetPublicationCallbacks(manager, publicationId);
+    manager.api.send({ type: 'unpublish', name });
+  };
+}
+
+/**
+ * Returns a proxy to an object published by another renderer with `publishObject`.
+ * Every method of the proxy is asynchronous. Once the publication is withdrawn, calls
+ * reject with `DisconnectedError`, even if an object is published again under the name.
+ * Callbacks passed through the proxy are released when the proxy is released with
+ * `releaseObject` or garbage collected.
+ *
+ * @param manager - Proxy manager obtaining the proxy
+ * @param name - Name the object is published under
+ * @returns Promise that resolves to the proxy object
+ * @throws If no object is published under the name
+ */
+export async function getPublishedObject<T extends object = any>(manager: ProxyManager, name: string): Promise<T> {
+  const publicationId = unwrapResponse(await manager.api.invoke({ type: 'getPublished', name }));
+
+  const existing = manager.publishedProxies.get(publicationId)?.deref();
+  if (existing) {
+    return existing as T;
+  }
+
+  const state: PublishedProxyState = { manager, publicationId, released: false };
+  const proxy = new Proxy({} as T, {
+    get(_target, prop: string | symbol) {
+      // Not thenable, so that the proxy can be returned from async functions
+      if (typeof prop !== 'string' || prop === 'then') {
+        return undefined;
+      }
+      return async (...args: unknown[]) => {
+        if (state.released) {
+          throw new Error(`Proxy to the object published under '${name}' has been released`);
+        }
+        const result = unwrapResponse(await manager.api.invoke({
+          type: 'callPublished',
+          name,
+          publicationId,
+          method: prop,
+          args: encodeValue(manager, args, getPublicationCallbacks(manager, publicationId)) as unknown[],
+        }));
+        return decodeValue(manager, result);
+      };
+    },
+  });
+
+  manager.publishedProxies.set(publicationId, new WeakRef(proxy));
+  publishedProxyStates.set(proxy, state);
+
+  return proxy;
+}
+
+/**
+ * Returns the object of a publication for a call relayed by the main process.
+ * Throws `DisconnectedError` if the publication has been withdrawn, and an error if the
+ * method is not one that other renderers may call (see `PublishOptions.methods`).
+ */
+function getPublishedObjectForCall(manager: ProxyManager, name: string, publicationId: number, method: string): object {
+  const published = manager.publishedObjects.get(name);
+  if (!published || published.publicationId !== publicationId) {
+    throw new DisconnectedError(name);
+  }
+
+  const { object, methods } = published;
+  const allowed = methods ? methods.has(method) : Object.prototype.hasOwnProperty.call(object, method);
+  if (!allowed) {
+    throw new Error(`Method '${method}' is not published on '${name}'`);
+  }
+  return object;
+}
+
+/**
+ * Calls a method of an exposed or published object on behalf of the main process and
+ * reports its result.
+ *
+ * @param manager - Proxy manager exposing the object
+ * @param message - Exposed object call message from the main process
+ */
+async function callExposedObject(manager: ProxyManager, message: CallExposedObjectMessage): Promise<void> {
+  const { callId, name, method, args, publicationId } = message;
+
+  try {
+    const object = publicationId === undefined
+      ? manager.exposedObjects.get(name)
+      : getPublishedObjectForCall(manager, name, publicationId, method);
+    if (!object) {
+      throw new Error(`No object is exposed under the name '${name}'`);
+    }
+
+    const methodFn = (object as any)[method];
+    if (typeof methodFn !== 'function') {
+      throw new Error(`Method '${method}' not found on exposed object '${name}'`);
+    }
+
+    const result = await methodFn.apply(object, decodeValue(manager, args) as unknown[]);
+    const callbacks = publicationId === undefined ? undefined : getPublicationCallbacks(manager, publicationId);
+    manager.api.send({ type: 'callbackResult', callId, result: encodeValue(manager, result, callbacks) });
+  } catch (error) {
+    manager.api.send({ type: 'callbackResult', callId, error: serializeError(error) });
+  }
+}
+
 /**
  * Releases objects from the object map and notifies the main process.
  *
+ * @param manager - Proxy manager the objects belong to
  * @param objectIds - Array of object IDs to release
  */
-function releaseObjects(objectIds: number[]): void {
+function releaseObjects(manager: ProxyManager, objectIds: number[]): void {
   if (objectIds.length === 0) {
     return;
   }
 
-  // Remove from objectMap
   for (const objectId of objectIds) {
-    delete objectMap[objectId];
+    forgetObject(manager, objectId);
   }
 
-  // Notify main process via preload API
-  api.send({
+  // Notify main process via preload API, after calls still waiting to be batched
+  flushBatch(manager);
+  manager.api.send({
     type: 'release',
     objectIds,
   });
 }
 
+/**
+ * Releases proxies to published objects and notifies the main process.
+ *
+ * @param manager - Proxy manager the proxies belong to
+ * @param publicationIds - Array of publication IDs to release
+ */
+function releasePublishedProxies(manager: ProxyManager, publicationIds: number[]): void {
+  if (publicationIds.length === 0) {
+    return;
+  }
+
+  for (const publicationId of publicationIds) {
+    manager.publishedProxies.delete(publicationId);
+    forgetPublicationCallbacks(manager, publicationId);
+  }
+
+  manager.api.send({
+    type: 'releasePublished',
+    publicationIds,
+  });
+}
+
+/**
+ * Removes an object from objectMap along with the callbacks passed to it,
+ * without notifying the main process.
+ */
+function forgetObject(manager: ProxyManager, objectId: number): void {
+  delete manager.objectMap[objectId];
+
+  const callbacks = manager.callbacksByObject[objectId];
+  if (callbacks) {
+    deleteCallbacks(manager, callbacks);
+    delete manager.callbacksByObject[objectId];
+  }
+}
+
 /**
  * Performs cleanup of unreferenced objects from the objectMap.
  * This function is called periodically to clean up WeakRef entries
  * that have been garbage collected.
  * Note: singletonProxyMap is not subject to cleanup.
  */
-function cleanupObjects(): void {
+function cleanupObjects(manager: ProxyManager): void {
   const releasedObjectIds: number[] = [];
 
-  for (const [objectIdStr, weakRef] of Object.entries(objectMap)) {
+  for (const [objectIdStr, weakRef] of Object.entries(manager.objectMap)) {
     if (!weakRef.deref()) {
       const objectId = parseInt(objectIdStr, 10);
       releasedObjectIds.push(objectId);
@@ -288,16 +1580,75 @@ function cleanupObjects(): void {
   }
 
   if (releasedObjectIds.length > 0) {
-    releaseObjects(releasedObjectIds);
+    releaseObjects(manager, releasedObjectIds);
+  }
+
+  const releasedPublicationIds: number[] = [];
+  for (const [publicationId, weakRef] of manager.publishedProxies) {
+    if (!weakRef.deref()) {
+      releasedPublicationIds.push(publicationId);
+    }
+  }
+  releasePublishedProxies(manager, releasedPublicationIds);
+
+  for (const [functionId, weakRef] of manager.relayedFunctions) {
+    if (!weakRef.deref()) {
+      manager.relayedFunctions.delete(functionId);
+    }
   }
 }
 
-// Set up periodic cleanup every minute
-setInterval(cleanupObjects, 60 * 1000);
+/**
+ * Returns the proxy manager talking through the API exposed under `globalName`,
+ * creating it on first use.
+ *
+ * @param globalName - Name of the global exposing the API, as passed to `exposeObjProxy`
+ * @returns The proxy manager
+ * @throws If the API is not exposed under the name
+ */
+export function getProxyManager(globalName: string = DEFAULT_GLOBAL_NAME): ProxyManager {
+  const existing = managers.get(globalName);
+  if (existing) {
+    return existing;
+  }
 
-// Initialize event handling from main process
-api.onEvent((message) => {
-  if (message.type === 'event') {
-    dispatchEvent(message.objectId, message.eventType, message.detail);
+  const api = (window as any)[globalName] as ElectronObjProxyAPI | undefined;
+  if (!api) {
+    throw new Error(`ElectronObjProxyAPI is not available as '${globalName}'. initObjProxy() must be called in the main process, and the API exposed by a preload script.`);
   }
-});
+
+  const manager: ProxyManager = {
+    api,
+    objectMap: {},
+    singletonProxyMap: {},
+    callbackMap: {},
+    callbacksByObject: {},
+    exposedObjects: new Map(),
+    publishedObjects: new Map(),
+    publishedProxies: new Map(),
+    callbacksByPublication: new Map(),
+    relayedFunctions: new Map(),
+    pendingBatch: [],
+  };
+  managers.set(globalName, manager);
+
+  // Set up periodic cleanup every minute
+  setInterval(() => cleanupObjects(manager), 60 * 1000);
+
+  // Initialize event, state, callback and exposed object call handling from main process
+  api.onEvent((message) => {
+    if (message.type === 'event') {
+      dispatchEvent(manager, message.objectId, message.eventType, message.detail, message.properties);
+    } else if (message.type === 'emit') {
+      emitEvent(manager, message.objectId, message.eventName, message.args);
+    } else if (message.type === 'state') {
+      applyStateMessage(manager, message);
+    } else if (message.type === 'callback') {
+      invokeCallback(manager, message);
+    } else if (message.type === 'callExposed') {
+      callExposedObject(manager, message);
+    }
+  });
+
+  return manager;
+}